@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import { getLogger } from "./logger.js";
+import type { PageSpeedInsightsResponse } from "./types.js";
+
+const logger = getLogger();
+
+/**
+ * Every analysis a tool ran, under an id the agent can hand back to the
+ * drill-down tools and read through the `psi://analysis/{id}/...` resources.
+ * Asking five questions about one run then costs one PSI call and answers
+ * them all from the same Lighthouse sample.
+ *
+ * In memory only, and bounded: a full response with screenshots is several
+ * MB, so the oldest analyses are dropped once MAX_ANALYSES is reached.
+ */
+
+export interface StoredAnalysis {
+  id: string;
+  url: string;
+  strategy: string;
+  storedAt: string;
+  result: PageSpeedInsightsResponse;
+}
+
+const MAX_ANALYSES = 20;
+
+class AnalysisStore {
+  private analyses = new Map<string, StoredAnalysis>();
+  // A cache hit maps onto the id the run was first stored under instead of
+  // minting a new one. Keyed by content, not object identity: the disk cache
+  // parses a fresh copy of the response on every read.
+  private ids = new Map<string, string>();
+
+  put(result: PageSpeedInsightsResponse, meta: { url: string; strategy: string }): string {
+    const key = runKey(result, meta);
+    const known = key && this.ids.get(key);
+    if (known && this.analyses.has(known)) {
+      return known;
+    }
+
+    const id = randomUUID();
+    this.analyses.set(id, {
+      id,
+      url: meta.url,
+      strategy: meta.strategy,
+      storedAt: new Date().toISOString(),
+      result,
+    });
+    if (key) this.ids.set(key, id);
+
+    while (this.analyses.size > MAX_ANALYSES) {
+      const oldest = this.analyses.keys().next().value as string;
+      const evicted = this.analyses.get(oldest)!;
+      this.analyses.delete(oldest);
+      const evictedKey = runKey(evicted.result, evicted);
+      if (evictedKey && this.ids.get(evictedKey) === oldest) this.ids.delete(evictedKey);
+      logger.debug({ analysisId: oldest }, "Analysis evicted");
+    }
+
+    logger.debug({ analysisId: id, url: meta.url }, "Analysis stored");
+    return id;
+  }
+
+  get(id: string): StoredAnalysis | null {
+    return this.analyses.get(id) ?? null;
+  }
+
+  list(): StoredAnalysis[] {
+    return [...this.analyses.values()];
+  }
+
+  clear(): void {
+    this.analyses.clear();
+    this.ids.clear();
+  }
+
+  size(): number {
+    return this.analyses.size;
+  }
+}
+
+// One Lighthouse run of one page; null when the response carries no fetchTime
+function runKey(result: PageSpeedInsightsResponse, meta: { url: string; strategy: string }): string | null {
+  const fetchTime = result.lighthouseResult?.fetchTime;
+  return fetchTime ? JSON.stringify([meta.url, meta.strategy, fetchTime]) : null;
+}
+
+export function analysisResourceUri(id: string, path = "lighthouse.json"): string {
+  return `psi://analysis/${id}/${path}`;
+}
+
+/** Split a `psi://analysis/{id}/...` URI; null for anything else, including malformed escapes. */
+export function parseAnalysisResourceUri(
+  uri: string
+): { id: string; resource: "lighthouse" } | { id: string; resource: "audit"; auditId: string } | null {
+  const match = /^psi:\/\/analysis\/([^/]+)\/(lighthouse\.json|audits\/([^/]+))$/.exec(uri);
+  if (!match) return null;
+  try {
+    const id = decodeURIComponent(match[1]);
+    if (match[2] === "lighthouse.json") return { id, resource: "lighthouse" };
+    return { id, resource: "audit", auditId: decodeURIComponent(match[3]) };
+  } catch {
+    return null;
+  }
+}
+
+// Singleton store instance
+export const analysisStore = new AnalysisStore();
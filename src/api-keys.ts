@@ -0,0 +1,129 @@
+import type { Environment } from "./env.js";
+import { getLogger } from "./logger.js";
+import { QuotaError } from "./errors.js";
+import { API_LABELS, msUntilQuotaReset, type Api } from "./rate-limiter.js";
+
+const logger = getLogger();
+
+/**
+ * A pool of Google API keys, typically from different Cloud projects so each
+ * brings its own quota. Requests spread over the pool round-robin or to the
+ * least-used key; a key that hits its quota or is rejected is sidelined for a
+ * while and the request moves on to the next one.
+ *
+ * Each API gets its own pool: a key that has spent its PSI quota for the day
+ * may still have CrUX quota left.
+ */
+
+export type KeyRotation = "round-robin" | "least-used";
+
+export type SidelineReason = "rate-limited" | "daily-quota" | "invalid-key";
+
+// An invalid or disabled key rarely fixes itself; check it again an hour later.
+const INVALID_KEY_SIDELINE_MS = 60 * 60_000;
+// A per-minute 429 without Retry-After.
+const RATE_LIMIT_SIDELINE_MS = 60_000;
+
+interface KeyState {
+  key: string;
+  uses: number;
+  sidelinedUntil: number;
+}
+
+/** Key rejected by Google rather than the request: another key may work. */
+export function isInvalidKey(body: string): boolean {
+  return /API_KEY_INVALID|API key not valid|API key expired|API_KEY_SERVICE_BLOCKED|SERVICE_DISABLED/i.test(body);
+}
+
+function sidelineDuration(reason: SidelineReason, retryAfterMs: number | null): number {
+  switch (reason) {
+    case "daily-quota":
+      return msUntilQuotaReset();
+    case "invalid-key":
+      return INVALID_KEY_SIDELINE_MS;
+    case "rate-limited":
+      return retryAfterMs ?? RATE_LIMIT_SIDELINE_MS;
+  }
+}
+
+/** Every configured key, GOOGLE_API_KEY first, without duplicates. */
+export function configuredKeys(env: Pick<Environment, "GOOGLE_API_KEY" | "GOOGLE_API_KEYS">): string[] {
+  const keys = [env.GOOGLE_API_KEY, ...(env.GOOGLE_API_KEYS ?? [])].filter((key): key is string => Boolean(key));
+  return [...new Set(keys)];
+}
+
+// Last four characters identify a key in logs without giving it away.
+function hint(key: string): string {
+  return `…${key.slice(-4)}`;
+}
+
+export class ApiKeyPool {
+  private readonly states: KeyState[];
+  private cursor = 0;
+
+  constructor(
+    private readonly api: Api,
+    keys: string[],
+    private readonly rotation: KeyRotation = "round-robin"
+  ) {
+    this.states = keys.map((key) => ({ key, uses: 0, sidelinedUntil: 0 }));
+  }
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  /** The key for the next request. Throws QuotaError when every key is sidelined. */
+  next(): string {
+    const now = Date.now();
+    const usable = this.states.filter((state) => state.sidelinedUntil <= now);
+    if (usable.length === 0) {
+      const soonest = Math.min(...this.states.map((state) => state.sidelinedUntil));
+      const minutes = Math.ceil((soonest - now) / 60_000);
+      throw new QuotaError(
+        `All ${this.size} ${API_LABELS[this.api]} API keys are sidelined after quota or invalid-key errors; the first is usable again in ${minutes} minutes`,
+        this.api
+      );
+    }
+
+    let chosen = usable[0];
+    if (this.rotation === "least-used") {
+      chosen = usable.reduce((least, state) => (state.uses < least.uses ? state : least));
+    } else {
+      // Walk from the cursor so a sidelined key's turn passes to the next one
+      for (let i = 0; i < this.size; i++) {
+        const index = (this.cursor + i) % this.size;
+        if (this.states[index].sidelinedUntil <= now) {
+          chosen = this.states[index];
+          this.cursor = (index + 1) % this.size;
+          break;
+        }
+      }
+    }
+    chosen.uses++;
+    return chosen.key;
+  }
+
+  /**
+   * Take a key out of rotation: until the quota resets, for the Retry-After
+   * delay, or for an hour when Google rejected the key itself. Returns whether another key is usable
+   * right now, i.e. whether retrying straight away is worthwhile. A pool of
+   * one never sidelines: there is nothing to rotate to, so the usual backoff
+   * and quota handling apply instead.
+   */
+  sideline(key: string, reason: SidelineReason, retryAfterMs: number | null = null): boolean {
+    if (this.size < 2) return false;
+    const state = this.states.find((s) => s.key === key);
+    if (!state) return false;
+    const ms = sidelineDuration(reason, retryAfterMs);
+    state.sidelinedUntil = Math.max(state.sidelinedUntil, Date.now() + ms);
+    logger.warn({ api: this.api, key: hint(key), reason, ms }, "API key sidelined");
+    const now = Date.now();
+    return this.states.some((s) => s.sidelinedUntil <= now);
+  }
+
+  /** Replace every key in the pool with [REDACTED]. */
+  redact(text: string): string {
+    return this.states.reduce((result, state) => result.replaceAll(state.key, "[REDACTED]"), text);
+  }
+}
@@ -1,17 +1,24 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
-import type { MetricSpread } from "./multirun.js";
+import { RUN_METRICS, type MetricSpread } from "./multirun.js";
 
 /**
  * Baselines for "did that change actually help" comparisons, persisted under
- * ~/.pagespeed-mcp/baselines.json keyed by url+strategy. The first call on a
+ * ~/.pagespeed-mcp/baselines.json keyed by url+strategy+name. The first call on a
  * URL records the baseline; later calls compare against it. Verdicts are only
  * given where the two min-max ranges do NOT overlap — comparing medians alone
  * reports improvements that are just the instrument moving.
+ *
+ * Names let one page keep several snapshots side by side, typically one per
+ * branch or release ("main", "release-2026.10", "pre-image-cdn"). The
+ * unnamed baseline is "default", stored under the plain url|strategy key so
+ * files written before names existed keep working.
  */
 
-interface Snapshot {
+export const DEFAULT_BASELINE = "default";
+
+export interface Snapshot {
   recorded: string;
   lighthouseVersion?: string;
   scores: Record<string, MetricSpread>;
@@ -41,32 +48,93 @@ function saveAll(b: Baselines): void {
   writeFileSync(baselinesPath(), JSON.stringify(b, null, 2));
 }
 
-export function getBaseline(url: string, strategy: string): Snapshot | null {
-  return load()[`${url}|${strategy}`] ?? null;
+// Named snapshots are keyed by the JSON array of their parts, which no URL can
+// be mistaken for; the default keeps the plain url|strategy key of old files.
+function keyOf(url: string, strategy: string, name: string): string {
+  return name === DEFAULT_BASELINE ? `${url}|${strategy}` : JSON.stringify([url, strategy, name]);
 }
 
-export function saveBaseline(
-  url: string,
-  strategy: string,
-  multirun: { stats: any; scores: Record<string, MetricSpread | null>; metrics: Record<string, MetricSpread | null> },
-  lighthouseVersion?: string
-): Snapshot {
-  const snap: Snapshot = {
+const LEGACY_KEY = /^(.*)\|(mobile|desktop)$/;
+
+function parseKey(key: string): { url: string; strategy: string; name: string } | null {
+  if (key.startsWith("[")) {
+    try {
+      const [url, strategy, name] = JSON.parse(key) as unknown[];
+      if (typeof url === "string" && typeof strategy === "string" && typeof name === "string") {
+        return { url, strategy, name };
+      }
+    } catch {
+      // Not one of ours: skip it
+    }
+    return null;
+  }
+  const match = key.match(LEGACY_KEY);
+  return match ? { url: match[1], strategy: match[2], name: DEFAULT_BASELINE } : null;
+}
+
+export function getBaseline(url: string, strategy: string, name = DEFAULT_BASELINE): Snapshot | null {
+  return load()[keyOf(url, strategy, name)] ?? null;
+}
+
+type MeasuredSpreads = { scores: Record<string, MetricSpread | null>; metrics: Record<string, MetricSpread | null> };
+
+/** The spreads of a multirun that were actually measured, stamped now. */
+export function snapshotOf(multirun: MeasuredSpreads, lighthouseVersion?: string): Snapshot {
+  return {
     recorded: new Date().toISOString(),
     lighthouseVersion,
     scores: Object.fromEntries(Object.entries(multirun.scores).filter(([, v]) => v)) as Record<string, MetricSpread>,
     metrics: Object.fromEntries(Object.entries(multirun.metrics).filter(([, v]) => v)) as Record<string, MetricSpread>,
   };
+}
+
+export function saveBaseline(
+  url: string,
+  strategy: string,
+  multirun: MeasuredSpreads & { stats: any },
+  lighthouseVersion?: string,
+  name = DEFAULT_BASELINE
+): Snapshot {
+  const snap = snapshotOf(multirun, lighthouseVersion);
   const all = load();
-  all[`${url}|${strategy}`] = snap;
+  all[keyOf(url, strategy, name)] = snap;
   saveAll(all);
   return snap;
 }
 
-export function clearBaseline(url: string, strategy: string): void {
+/** Removes one snapshot; false when there was none. */
+export function clearBaseline(url: string, strategy: string, name = DEFAULT_BASELINE): boolean {
   const all = load();
-  delete all[`${url}|${strategy}`];
+  const key = keyOf(url, strategy, name);
+  if (!(key in all)) return false;
+  delete all[key];
   saveAll(all);
+  return true;
+}
+
+export interface BaselineEntry {
+  url: string;
+  strategy: string;
+  name: string;
+  recorded: string;
+  lighthouseVersion?: string;
+  performance: MetricSpread | null;
+}
+
+/** Saved snapshots, optionally for one URL, newest first. */
+export function listBaselines(url?: string): BaselineEntry[] {
+  const entries: BaselineEntry[] = [];
+  for (const [key, snap] of Object.entries(load())) {
+    const parts = parseKey(key);
+    if (!parts || (url !== undefined && parts.url !== url)) continue;
+    entries.push({
+      ...parts,
+      recorded: snap.recorded,
+      lighthouseVersion: snap.lighthouseVersion,
+      performance: snap.scores.performance ?? null,
+    });
+  }
+  return entries.sort((a, b) => b.recorded.localeCompare(a.recorded));
 }
 
 export interface RangeVerdict {
@@ -125,3 +193,33 @@ function verdict(metric: string, b: MetricSpread, a: MetricSpread, higherIsBette
     guaranteedDelta: Math.max(guaranteed, overlap_ ? 0 : guaranteed),
   };
 }
+
+export interface StrategyGap {
+  metric: string;
+  mobile: MetricSpread;
+  desktop: MetricSpread;
+  /** Desktop median minus mobile median. */
+  medianGap: number;
+  /** What the disjoint ranges guarantee; 0 when they overlap. */
+  guaranteedGap: number;
+  verdict: "desktop-better" | "mobile-better" | "within-noise";
+}
+
+/**
+ * Mobile against desktop for the performance score and the key metrics, with
+ * the same rule as a baseline comparison: a gap is only called where the two
+ * ranges do not overlap.
+ */
+export function strategyGaps(mobile: MeasuredSpreads, desktop: MeasuredSpreads): StrategyGap[] {
+  const compared = new Set(["performance", ...RUN_METRICS]);
+  return compareBaselines(snapshotOf(mobile), snapshotOf(desktop))
+    .filter((v) => compared.has(v.metric))
+    .map((v) => ({
+      metric: v.metric,
+      mobile: v.before,
+      desktop: v.after,
+      medianGap: v.medianDelta,
+      guaranteedGap: v.guaranteedDelta,
+      verdict: v.verdict === "improved" ? "desktop-better" : v.verdict === "regressed" ? "mobile-better" : "within-noise",
+    }));
+}
@@ -1,66 +1,457 @@
+import { createHash, randomUUID } from "crypto";
+import {
+  closeSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { getEnv } from "./env.js";
 import { getLogger } from "./logger.js";
 
 const logger = getLogger();
 
-interface CacheEntry<T> {
-  data: T;
+/** Everything about an entry except its payload, cheap enough to list. */
+export interface CacheEntryInfo {
+  key: string;
+  storedAt: number;
   expiresAt: number;
+  lastAccessed: number;
+  /** Serialized payload size in bytes. */
+  size: number;
+}
+
+export interface CacheEntry<T> extends CacheEntryInfo {
+  data: T;
 }
 
-class SimpleCache {
-  private cache = new Map<string, CacheEntry<any>>();
+/**
+ * Where cache entries live. SimpleCache owns the TTL and eviction rules; a
+ * store only keeps entries, so swapping the backend cannot change what counts
+ * as fresh or what gets evicted first.
+ */
+export interface CacheStore {
+  readonly kind: "memory" | "disk";
+  read(key: string): CacheEntry<any> | undefined;
+  write(entry: CacheEntry<any>): void;
+  /** Record a hit for LRU ordering. */
+  touch(key: string, at: number): void;
+  remove(key: string): void;
+  list(): CacheEntryInfo[];
+  clear(): void;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly kind = "memory";
+  private entriesByKey = new Map<string, CacheEntry<any>>();
+
+  read(key: string): CacheEntry<any> | undefined {
+    return this.entriesByKey.get(key);
+  }
+
+  write(entry: CacheEntry<any>): void {
+    this.entriesByKey.set(entry.key, entry);
+  }
+
+  touch(key: string, at: number): void {
+    const entry = this.entriesByKey.get(key);
+    if (entry) entry.lastAccessed = at;
+  }
+
+  remove(key: string): void {
+    this.entriesByKey.delete(key);
+  }
+
+  list(): CacheEntryInfo[] {
+    return [...this.entriesByKey.values()].map(({ data: _data, ...info }) => info);
+  }
+
+  clear(): void {
+    this.entriesByKey.clear();
+  }
+}
+
+// Header lines hold the key (a URL) plus a few numbers; anything longer is not ours.
+const HEADER_BYTES = 64 * 1024;
+// A temp file this old belongs to an interrupted write, not one in progress.
+const STALE_TEMP_MS = 60_000;
+// Comfortably more than a filesystem timestamp tick.
+const RACY_MTIME_MS = 100;
+
+/**
+ * One file per entry, named by a hash of the key, so results survive a
+ * restart of the stdio server. The first line is the entry's metadata and the
+ * second its payload, so listing and eviction never parse multi-MB responses.
+ * The file's mtime is the last access time.
+ *
+ * Writes go to a temp file that is renamed into place, which is atomic on one
+ * filesystem: several processes sharing the directory may overwrite each
+ * other's entries but never read a torn one. Temp files left by an
+ * interrupted write are swept when the store opens.
+ *
+ * Entry headers are kept in memory, so listing and eviction do not read
+ * every entry again. Another process adding or removing a file changes the
+ * directory's mtime; only then is the directory listed, and only the headers
+ * of files the index does not know yet are read.
+ */
+export class DiskCacheStore implements CacheStore {
+  readonly kind = "disk";
+  // Headers by file path
+  private index = new Map<string, CacheEntryInfo>();
+  // Directory mtime the index reflects; NaN until the first scan
+  private indexedMtime = NaN;
+  private indexTrusted = false;
+
+  constructor(private readonly dir: string) {
+    mkdirSync(dir, { recursive: true });
+    this.sweepTempFiles();
+  }
+
+  private sweepTempFiles(): void {
+    const now = Date.now();
+    for (const name of readdirSync(this.dir)) {
+      if (!name.endsWith(".tmp")) continue;
+      const file = join(this.dir, name);
+      try {
+        if (now - statSync(file).mtimeMs > STALE_TEMP_MS) rmSync(file, { force: true });
+      } catch {
+        // Renamed into place or swept by another process meanwhile
+      }
+    }
+  }
+
+  private directoryMtime(): number {
+    try {
+      return statSync(this.dir).mtimeMs;
+    } catch {
+      return NaN;
+    }
+  }
+
+  // Filesystem timestamps move in clock ticks: a change within a tick of the
+  // recorded mtime may leave it unchanged, so a recent mtime proves nothing.
+  private recordMtime(mtime: number): void {
+    this.indexedMtime = mtime;
+    this.indexTrusted = Date.now() - mtime > RACY_MTIME_MS;
+  }
+
+  private entriesIndex(): Map<string, CacheEntryInfo> {
+    const mtime = this.directoryMtime();
+    if (!this.indexTrusted || mtime !== this.indexedMtime) {
+      const known = this.index;
+      this.index = new Map();
+      for (const file of this.files()) {
+        const info = known.get(file) ?? this.readHeader(file);
+        if (info) this.index.set(file, info);
+      }
+      // Read after the scan: discarding unreadable entries changes the directory too
+      this.recordMtime(this.directoryMtime());
+    }
+    return this.index;
+  }
+
+  // A change of our own keeps the index current without a rescan, unless the
+  // directory had already changed under it.
+  private changeDirectory(change: () => void): void {
+    const current = this.indexTrusted && this.directoryMtime() === this.indexedMtime;
+    change();
+    if (current) {
+      this.recordMtime(this.directoryMtime());
+    } else {
+      this.indexTrusted = false;
+    }
+  }
+
+  private fileFor(key: string): string {
+    return join(this.dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  // Missing (another process removed it) or unreadable: either way a miss
+  private discard(file: string, error: unknown): undefined {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      rmSync(file, { force: true });
+    }
+    return undefined;
+  }
+
+  private readHeader(file: string): CacheEntryInfo | undefined {
+    let fd: number | undefined;
+    try {
+      fd = openSync(file, "r");
+      const buffer = Buffer.alloc(HEADER_BYTES);
+      const length = readSync(fd, buffer, 0, HEADER_BYTES, 0);
+      const text = buffer.subarray(0, length).toString("utf8");
+      const newline = text.indexOf("\n");
+      if (newline < 0) throw new Error("Malformed cache entry");
+      const { key, storedAt, expiresAt, size } = JSON.parse(text.slice(0, newline));
+      return { key, storedAt, expiresAt, size, lastAccessed: fstatSync(fd).mtimeMs };
+    } catch (error) {
+      return this.discard(file, error);
+    } finally {
+      if (fd !== undefined) closeSync(fd);
+    }
+  }
+
+  read(key: string): CacheEntry<any> | undefined {
+    const file = this.fileFor(key);
+    try {
+      const text = readFileSync(file, "utf8");
+      const newline = text.indexOf("\n");
+      if (newline < 0) throw new Error("Malformed cache entry");
+      const info = JSON.parse(text.slice(0, newline));
+      // Guard against hash collisions, however unlikely
+      if (info.key !== key) return undefined;
+      return { ...info, lastAccessed: statSync(file).mtimeMs, data: JSON.parse(text.slice(newline + 1)) };
+    } catch (error) {
+      return this.discard(file, error);
+    }
+  }
+
+  write(entry: CacheEntry<any>): void {
+    const file = this.fileFor(entry.key);
+    const temp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    const { key, storedAt, expiresAt, size, data } = entry;
+    try {
+      this.changeDirectory(() => {
+        writeFileSync(temp, `${JSON.stringify({ key, storedAt, expiresAt, size })}\n${JSON.stringify(data)}`);
+        utimesSync(temp, entry.lastAccessed / 1000, entry.lastAccessed / 1000);
+        renameSync(temp, file);
+      });
+      this.index.set(file, { key, storedAt, expiresAt, size, lastAccessed: entry.lastAccessed });
+    } catch (error) {
+      this.indexTrusted = false;
+      rmSync(temp, { force: true });
+      // A cache that cannot write degrades to fetching every time
+      logger.warn({ key: entry.key, error: (error as Error).message }, "Failed to write cache entry");
+    }
+  }
+
+  touch(key: string, at: number): void {
+    try {
+      const file = this.fileFor(key);
+      utimesSync(file, at / 1000, at / 1000);
+      const info = this.index.get(file);
+      if (info) info.lastAccessed = at;
+    } catch {
+      // Removed by another process in the meantime
+    }
+  }
+
+  remove(key: string): void {
+    const file = this.fileFor(key);
+    this.changeDirectory(() => rmSync(file, { force: true }));
+    this.index.delete(file);
+  }
+
+  private files(): string[] {
+    try {
+      return readdirSync(this.dir).filter((name) => name.endsWith(".json")).map((name) => join(this.dir, name));
+    } catch {
+      return [];
+    }
+  }
+
+  list(): CacheEntryInfo[] {
+    return [...this.entriesIndex().values()].map((info) => ({ ...info }));
+  }
+
+  clear(): void {
+    for (const file of this.files()) {
+      rmSync(file, { force: true });
+    }
+    this.index.clear();
+    this.recordMtime(this.directoryMtime());
+  }
+}
+
+export function createCacheStore(): CacheStore {
+  const env = getEnv();
+  if (env.CACHE_BACKEND === "disk") {
+    const dir = env.CACHE_DIR || join(homedir(), ".pagespeed-mcp", "cache");
+    logger.debug({ dir }, "Using disk cache");
+    return new DiskCacheStore(dir);
+  }
+  return new MemoryCacheStore();
+}
+
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheStats extends CacheLimits {
+  backend: "memory" | "disk";
+  entries: number;
+  bytes: number;
+  /** Counted by this process since it started. */
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/** Which cached entries clear_cache should drop; every given field must match. */
+export interface CacheFilter {
+  /** Substring of the URL, or a glob where `*` matches anything. */
+  urlPattern?: string;
+  strategy?: string;
+  type?: "psi" | "crux";
+}
+
+export class SimpleCache {
   private readonly defaultTTL = 5 * 60 * 1000; // 5 minutes
+  private backend?: CacheStore;
+  private configuredLimits?: CacheLimits;
+  private counters = { hits: 0, misses: 0, evictions: 0 };
+
+  // The env is read on first use rather than at import time
+  constructor(store?: CacheStore, limits?: CacheLimits) {
+    this.backend = store;
+    this.configuredLimits = limits;
+  }
+
+  private get store(): CacheStore {
+    return (this.backend ??= createCacheStore());
+  }
+
+  private get limits(): CacheLimits {
+    if (!this.configuredLimits) {
+      const env = getEnv();
+      this.configuredLimits = { maxEntries: env.CACHE_MAX_ENTRIES, maxBytes: env.CACHE_MAX_BYTES };
+    }
+    return this.configuredLimits;
+  }
 
   set<T>(key: string, data: T, ttl: number = this.defaultTTL): void {
     const now = Date.now();
-    this.cache.set(key, {
+    const size = Buffer.byteLength(JSON.stringify(data) ?? "");
+    if (size > this.limits.maxBytes) {
+      logger.debug({ key, size }, "Cache entry larger than the cache, not stored");
+      return;
+    }
+
+    this.store.write({
+      key,
       data,
+      storedAt: now,
       expiresAt: now + ttl,
+      lastAccessed: now,
+      size,
     });
-    
-    logger.debug({ key, ttl }, "Cache entry stored");
+    this.evict(key);
+
+    logger.debug({ key, ttl, size }, "Cache entry stored");
   }
 
   get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
+    const entry = this.store.read(key);
+
     if (!entry) {
+      this.counters.misses++;
       logger.debug({ key }, "Cache miss");
       return null;
     }
-    
+
     if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+      this.store.remove(key);
+      this.counters.misses++;
       logger.debug({ key }, "Cache entry expired");
       return null;
     }
-    
+
+    this.store.touch(key, Date.now());
+    this.counters.hits++;
     logger.debug({ key }, "Cache hit");
     return entry.data as T;
   }
 
+  // Drop expired entries, then least recently used ones, until both limits hold.
+  private evict(justStored: string): void {
+    const { maxEntries, maxBytes } = this.limits;
+    const now = Date.now();
+    const live: CacheEntryInfo[] = [];
+    for (const entry of this.store.list()) {
+      if (now > entry.expiresAt) {
+        this.store.remove(entry.key);
+      } else {
+        live.push(entry);
+      }
+    }
+
+    let bytes = live.reduce((total, entry) => total + entry.size, 0);
+    const candidates = live
+      .filter((entry) => entry.key !== justStored)
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+    let count = live.length;
+    for (const entry of candidates) {
+      if (count <= maxEntries && bytes <= maxBytes) break;
+      this.store.remove(entry.key);
+      count--;
+      bytes -= entry.size;
+      this.counters.evictions++;
+      logger.debug({ key: entry.key, size: entry.size }, "Cache entry evicted");
+    }
+  }
+
+  /** Live entries, most recently used first. */
+  entries(): CacheEntryInfo[] {
+    const now = Date.now();
+    return this.store
+      .list()
+      .filter((entry) => now <= entry.expiresAt)
+      .sort((a, b) => b.lastAccessed - a.lastAccessed);
+  }
+
+  stats(): CacheStats {
+    const entries = this.entries();
+    return {
+      backend: this.store.kind,
+      entries: entries.length,
+      bytes: entries.reduce((total, entry) => total + entry.size, 0),
+      ...this.limits,
+      ...this.counters,
+    };
+  }
+
+  /** Remove the entries matching `filter`; returns how many were removed. */
+  remove(filter: CacheFilter): number {
+    const matching = this.store.list().filter((entry) => matchesCacheFilter(entry.key, filter));
+    for (const entry of matching) {
+      this.store.remove(entry.key);
+    }
+    logger.debug({ filter, removed: matching.length }, "Cache entries removed");
+    return matching.length;
+  }
 
   clear(): void {
-    this.cache.clear();
+    this.store.clear();
     logger.debug("Cache cleared");
   }
 
   size(): number {
-    return this.cache.size;
+    return this.store.list().length;
   }
 
   // Clean up expired entries
   cleanup(): void {
     const now = Date.now();
     let removed = 0;
-    
-    for (const [key, entry] of this.cache.entries()) {
+
+    for (const entry of this.store.list()) {
       if (now > entry.expiresAt) {
-        this.cache.delete(key);
+        this.store.remove(entry.key);
         removed++;
       }
     }
-    
+
     if (removed > 0) {
       logger.debug({ removed }, "Cleaned up expired cache entries");
     }
@@ -72,15 +463,63 @@ export function createPSICacheKey(url: string, strategy: string, categories: str
   return `psi:${url}:${strategy}:${categories.sort().join(',')}:${locale}`;
 }
 
-// Create cache key for CrUX data  
+// Create cache key for CrUX data
 export function createCruxCacheKey(url: string, formFactor?: string): string {
   return `crux:${url}:${formFactor || 'default'}`;
 }
 
+// Create cache key for CrUX History data (same crux: prefix as snapshots)
+export function createCruxHistoryCacheKey(target: string, formFactor: string | undefined, periods: number): string {
+  return `crux:history:${target}:${formFactor || 'default'}:${periods}`;
+}
+
+export interface CacheKeyParts {
+  type: "psi" | "crux";
+  url: string;
+  strategy: string | null;
+  categories: string[] | null;
+  locale: string | null;
+  formFactor: string | null;
+}
+
+/**
+ * Inverse of the key builders above. URLs contain colons, so the fixed fields
+ * are taken from the right and whatever is left is the URL.
+ */
+export function describeCacheKey(key: string): CacheKeyParts {
+  const parts = key.split(":");
+  const none = { strategy: null, categories: null, locale: null, formFactor: null };
+  if (parts[0] === "psi" && parts.length >= 5) {
+    const [strategy, categories, locale] = parts.slice(-3);
+    return { ...none, type: "psi", url: parts.slice(1, -3).join(":"), strategy, categories: categories ? categories.split(",") : [], locale };
+  }
+  if (parts[0] === "crux" && parts[1] === "history" && parts.length >= 5) {
+    return { ...none, type: "crux", url: parts.slice(2, -2).join(":"), formFactor: parts.at(-2)! };
+  }
+  if (parts[0] === "crux" && parts.length >= 3) {
+    return { ...none, type: "crux", url: parts.slice(1, -1).join(":"), formFactor: parts.at(-1)! };
+  }
+  return { ...none, type: parts[0] === "crux" ? "crux" : "psi", url: key };
+}
+
+function urlMatches(url: string, pattern: string): boolean {
+  if (!pattern.includes("*")) return url.includes(pattern);
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(url);
+}
+
+export function matchesCacheFilter(key: string, filter: CacheFilter): boolean {
+  const parts = describeCacheKey(key);
+  if (filter.type && parts.type !== filter.type) return false;
+  if (filter.strategy && parts.strategy !== filter.strategy) return false;
+  if (filter.urlPattern && !urlMatches(parts.url, filter.urlPattern)) return false;
+  return true;
+}
+
 // Singleton cache instance
 export const cache = new SimpleCache();
 
 // Cleanup interval (every 10 minutes)
 setInterval(() => {
   cache.cleanup();
-}, 10 * 60 * 1000);
\ No newline at end of file
+}, 10 * 60 * 1000);
@@ -0,0 +1,39 @@
+/**
+ * Cooperative cancellation for long tool calls. The MCP SDK aborts a
+ * request's `extra.signal` when the client sends `notifications/cancelled`;
+ * the signal is threaded down to every fetch and every wait so a cancelled
+ * multirun stops sleeping and stops spending quota.
+ */
+
+export class CancelledError extends Error {
+  constructor(message = "Request cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+export function isCancelled(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/** setTimeout as a promise that rejects with CancelledError as soon as the signal aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfCancelled(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
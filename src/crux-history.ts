@@ -0,0 +1,237 @@
+import type { CruxHistoryRecord } from "./types.js";
+import { FIELD_METRICS, isoDate, rate, type Rating } from "./crux-report.js";
+
+/**
+ * Weekly p75 trends from the CrUX History API. Each collection period is a
+ * 28-day window ending one week after the previous one, so a regression shows
+ * up as a slope over several points rather than a single jump.
+ *
+ * A trend only matters to stakeholders where it crosses a Core Web Vitals
+ * threshold, so every crossing is called out next to the chart.
+ */
+
+export interface CollectionPeriod {
+  firstDate: string;
+  lastDate: string;
+}
+
+export interface MetricTrend {
+  metric: string;
+  label: string;
+  unit: string;
+  good: number;
+  poor: number;
+  /** One p75 per collection period, oldest first; null where CrUX had too little data. */
+  p75s: Array<number | null>;
+  latest: number | null;
+  rating: Rating | null;
+}
+
+export interface ThresholdCrossing {
+  metric: string;
+  label: string;
+  /** Last day of the collection period in which the new rating first showed. */
+  periodEnd: string;
+  from: Rating;
+  to: Rating;
+  previous: number;
+  current: number;
+  direction: "improved" | "regressed";
+}
+
+export interface CruxHistorySeries {
+  formFactor: string | null;
+  periods: CollectionPeriod[];
+  metrics: MetricTrend[];
+}
+
+const RATING_ORDER: Rating[] = ["good", "needs-improvement", "poor"];
+
+// CLS p75s arrive as strings ("0.05"); missing periods as null or "NaN".
+function toNumber(value: unknown): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/** Pull the trend metrics out of a queryHistoryRecord response. Null when CrUX has no record. */
+export function parseCruxHistory(data: CruxHistoryRecord): CruxHistorySeries | null {
+  const record = data.record;
+  if (!record) return null;
+
+  const periods = (record.collectionPeriods || []).map((period) => ({
+    firstDate: isoDate(period.firstDate),
+    lastDate: isoDate(period.lastDate),
+  }));
+
+  const metrics = FIELD_METRICS.flatMap((metric) => {
+    const raw = record.metrics?.[metric.key]?.percentilesTimeseries?.p75s;
+    if (!raw) return [];
+    const p75s = raw.map(toNumber);
+    const latest = [...p75s].reverse().find((v): v is number => v !== null) ?? null;
+    return [{
+      metric: metric.key,
+      label: metric.label,
+      unit: metric.unit,
+      good: metric.good,
+      poor: metric.poor,
+      p75s,
+      latest,
+      rating: latest === null ? null : rate(latest, metric),
+    }];
+  });
+
+  return { formFactor: record.key.formFactor ?? null, periods, metrics };
+}
+
+/** Every point where a metric's rating changed from one measured period to the next. */
+export function findThresholdCrossings(series: CruxHistorySeries): ThresholdCrossing[] {
+  const crossings: ThresholdCrossing[] = [];
+  for (const trend of series.metrics) {
+    let previous: { value: number; rating: Rating } | null = null;
+    trend.p75s.forEach((value, i) => {
+      if (value === null) return;
+      const rating = rate(value, trend);
+      if (previous && previous.rating !== rating) {
+        crossings.push({
+          metric: trend.metric,
+          label: trend.label,
+          periodEnd: series.periods[i]?.lastDate ?? `period ${i + 1}`,
+          from: previous.rating,
+          to: rating,
+          previous: previous.value,
+          current: value,
+          direction: RATING_ORDER.indexOf(rating) > RATING_ORDER.indexOf(previous.rating) ? "regressed" : "improved",
+        });
+      }
+      previous = { value, rating };
+    });
+  }
+  return crossings;
+}
+
+export function formatTrendValue(value: number, unit: string): string {
+  return unit === "ms" ? `${Math.round(value)}ms` : value.toFixed(2);
+}
+
+const ASCII_ROWS = 8;
+
+/**
+ * Plain-text line chart, one column per collection period. The good and poor
+ * thresholds are drawn as dashed rows when they fall inside the plotted range
+ * (the crossings list carries the exact values either way).
+ */
+export function renderAsciiChart(trend: MetricTrend): string {
+  const values = trend.p75s.filter((v): v is number => v !== null);
+  if (values.length === 0) return `${trend.label}: no data`;
+
+  let lo = Math.min(...values);
+  let hi = Math.max(...values);
+  if (hi === lo) {
+    lo = lo * 0.9;
+    hi = hi * 1.1 || 1;
+  }
+  const rowOf = (value: number) => Math.round(((value - lo) / (hi - lo)) * (ASCII_ROWS - 1));
+
+  const labels = new Map<number, string>([
+    [ASCII_ROWS - 1, formatTrendValue(hi, trend.unit)],
+    [0, formatTrendValue(lo, trend.unit)],
+  ]);
+  const thresholdRows = new Set<number>();
+  for (const threshold of [trend.good, trend.poor]) {
+    const row = rowOf(threshold);
+    // A threshold that rounds onto the top or bottom row would hide the axis label
+    if (row > 0 && row < ASCII_ROWS - 1) {
+      thresholdRows.add(row);
+      labels.set(row, formatTrendValue(threshold, trend.unit));
+    }
+  }
+
+  const labelWidth = Math.max(...[...labels.values()].map((l) => l.length));
+  const lines: string[] = [];
+  for (let row = ASCII_ROWS - 1; row >= 0; row--) {
+    const cells = trend.p75s.map((value) => {
+      if (value !== null && rowOf(value) === row) return "*";
+      return thresholdRows.has(row) ? "-" : " ";
+    });
+    lines.push(`${(labels.get(row) ?? "").padStart(labelWidth)} |${cells.join("")}`);
+  }
+  lines.push(`${"".padStart(labelWidth)} +${"-".repeat(trend.p75s.length)}`);
+  return `${trend.label} p75${trend.unit ? ` (${trend.unit})` : ""}\n${lines.join("\n")}`;
+}
+
+/**
+ * Mermaid xychart with the p75 line and the good threshold as a second line.
+ * Mermaid cannot plot gaps, so a period without data repeats the last value.
+ */
+export function renderMermaidChart(trend: MetricTrend, periods: CollectionPeriod[]): string {
+  let carry = trend.p75s.find((v): v is number => v !== null) ?? 0;
+  const points = trend.p75s.map((value) => {
+    if (value !== null) carry = value;
+    return carry;
+  });
+  const round = (v: number) => (trend.unit === "ms" ? Math.round(v) : Number(v.toFixed(3)));
+  const max = Math.max(...points, trend.good) * 1.1;
+  const xLabels = trend.p75s.map((_, i) => `"${(periods[i]?.lastDate ?? String(i + 1)).slice(5)}"`);
+
+  return [
+    "```mermaid",
+    "xychart-beta",
+    `  title "${trend.label} p75${trend.unit ? ` (${trend.unit})` : ""}"`,
+    `  x-axis [${xLabels.join(", ")}]`,
+    `  y-axis "${trend.unit || "score"}" 0 --> ${round(max)}`,
+    `  line [${points.map(round).join(", ")}]`,
+    `  line [${points.map(() => round(trend.good)).join(", ")}]`,
+    "```",
+  ].join("\n");
+}
+
+export function formatCruxHistoryReport(
+  series: CruxHistorySeries | null,
+  target: { kind: "url" | "origin"; value: string },
+  chart: "ascii" | "mermaid"
+): string {
+  const heading = `# CrUX History (${target.kind === "origin" ? "Origin" : "URL"})\n\n**${target.kind === "origin" ? "Origin" : "URL"}:** ${target.value}\n`;
+  if (!series || series.metrics.length === 0) {
+    return `${heading}**Status:** No field data available (insufficient traffic)\n\nChrome UX Report has no history for this ${target.kind}.`;
+  }
+
+  let report = heading;
+  report += `**Form Factor:** ${series.formFactor ?? "ALL"}\n`;
+  const first = series.periods[0];
+  const last = series.periods[series.periods.length - 1];
+  if (first && last) {
+    report += `**Collection periods:** ${series.periods.length} weekly (${first.firstDate} → ${last.lastDate})\n`;
+  }
+
+  report += `\n## p75 Trend\n\n| Metric | First | Latest | Rating |\n|---|---|---|---|\n`;
+  for (const trend of series.metrics) {
+    const firstValue = trend.p75s.find((v): v is number => v !== null);
+    report += `| ${trend.label} | ${firstValue === undefined ? "n/a" : formatTrendValue(firstValue, trend.unit)} | `;
+    report += `${trend.latest === null ? "n/a" : formatTrendValue(trend.latest, trend.unit)} | ${trend.rating ?? "n/a"} |\n`;
+  }
+
+  const crossings = findThresholdCrossings(series);
+  report += `\n## Threshold Crossings\n\n`;
+  if (crossings.length === 0) {
+    report += `No metric crossed a Core Web Vitals threshold in this window.\n`;
+  } else {
+    for (const c of crossings) {
+      const icon = c.direction === "regressed" ? "⚠️" : "✅";
+      report += `- ${icon} **${c.label}** ${c.direction}: ${c.from} → ${c.to} in the period ending ${c.periodEnd} `;
+      report += `(${formatTrendValue(c.previous, unitOf(series, c.metric))} → ${formatTrendValue(c.current, unitOf(series, c.metric))})\n`;
+    }
+  }
+
+  report += `\n## Charts\n\n`;
+  for (const trend of series.metrics) {
+    report += chart === "mermaid"
+      ? `${renderMermaidChart(trend, series.periods)}\n\n`
+      : "```\n" + renderAsciiChart(trend) + "\n```\n\n";
+  }
+
+  return report.trimEnd();
+}
+
+function unitOf(series: CruxHistorySeries, metric: string): string {
+  return series.metrics.find((m) => m.metric === metric)?.unit ?? "";
+}
@@ -0,0 +1,226 @@
+import type { CruxDate, CruxRecord } from "./types.js";
+
+/**
+ * Reading a CrUX snapshot (records:queryRecord) the way the Core Web Vitals
+ * assessment does: the p75 decides pass/fail, the histogram says how many
+ * visits are good, and the extra metrics (round trip time, navigation types,
+ * form factors, LCP breakdown) say why a page lands where it does.
+ */
+
+export type Rating = "good" | "needs-improvement" | "poor";
+
+export interface FieldMetric {
+  key: string;
+  label: string;
+  title: string;
+  unit: "ms" | "";
+  good: number;
+  poor: number;
+  /** Counts toward the Core Web Vitals assessment. */
+  coreWebVital: boolean;
+}
+
+// Google's published thresholds: at or below `good` is good, above `poor` is poor.
+export const FIELD_METRICS: FieldMetric[] = [
+  { key: "largest_contentful_paint", label: "LCP", title: "Largest Contentful Paint", unit: "ms", good: 2500, poor: 4000, coreWebVital: true },
+  { key: "interaction_to_next_paint", label: "INP", title: "Interaction to Next Paint", unit: "ms", good: 200, poor: 500, coreWebVital: true },
+  { key: "cumulative_layout_shift", label: "CLS", title: "Cumulative Layout Shift", unit: "", good: 0.1, poor: 0.25, coreWebVital: true },
+  { key: "first_contentful_paint", label: "FCP", title: "First Contentful Paint", unit: "ms", good: 1800, poor: 3000, coreWebVital: false },
+  { key: "experimental_time_to_first_byte", label: "TTFB", title: "Time to First Byte", unit: "ms", good: 800, poor: 1800, coreWebVital: false },
+];
+
+// Where the time before LCP goes when the LCP element is an image.
+const LCP_IMAGE_SUBPARTS = [
+  { key: "largest_contentful_paint_image_time_to_first_byte", title: "Time to first byte" },
+  { key: "largest_contentful_paint_image_resource_load_delay", title: "Resource load delay" },
+  { key: "largest_contentful_paint_image_resource_load_duration", title: "Resource load duration" },
+  { key: "largest_contentful_paint_image_element_render_delay", title: "Element render delay" },
+];
+
+const FRACTION_METRICS = [
+  { key: "navigation_types", title: "Navigation Types" },
+  { key: "form_factors", title: "Form Factors" },
+  { key: "largest_contentful_paint_resource_type", title: "LCP Resource Type" },
+];
+
+export interface Distribution {
+  good: number;
+  needsImprovement: number;
+  poor: number;
+}
+
+export interface FieldMetricSummary {
+  p75: number | string;
+  histogram: Array<{ start: number | string; end?: number | string; density: number }>;
+  /** Null for metrics without official thresholds (round trip time, LCP subparts). */
+  rating: Rating | null;
+  passed: boolean | null;
+  distribution: Distribution | null;
+}
+
+export interface CruxRecordSummary {
+  formFactor: string | null;
+  collectionPeriod: { firstDate: string; lastDate: string } | null;
+  metrics: Record<string, FieldMetricSummary>;
+  fractions: Record<string, Record<string, number>>;
+  /** Passed when LCP, INP and CLS are all good at p75; null when none was measured. */
+  coreWebVitals: { passed: boolean | null; failing: string[] };
+}
+
+export function rate(value: number, metric: { good: number; poor: number }): Rating {
+  if (value <= metric.good) return "good";
+  if (value <= metric.poor) return "needs-improvement";
+  return "poor";
+}
+
+export function isoDate(date: CruxDate): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+// CLS p75s and bucket bounds arrive as strings ("0.05").
+function numeric(value: number | string | undefined): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+// Core Web Vitals histograms have exactly three bins, aligned on the thresholds.
+function distributionOf(histogram: FieldMetricSummary["histogram"]): Distribution | null {
+  if (histogram.length !== 3) return null;
+  const [good, needsImprovement, poor] = histogram.map((bin) => bin.density ?? 0);
+  return { good, needsImprovement, poor };
+}
+
+export function summarizeCruxRecord(cruxData: CruxRecord): CruxRecordSummary | null {
+  const record = cruxData.record;
+  if (!record) return null;
+
+  const metrics: Record<string, FieldMetricSummary> = {};
+  const fractions: Record<string, Record<string, number>> = {};
+  for (const [key, metric] of Object.entries(record.metrics || {})) {
+    if (metric?.fractions) {
+      fractions[key] = metric.fractions;
+    }
+    if (metric?.percentiles?.p75 === undefined) continue;
+
+    const definition = FIELD_METRICS.find((m) => m.key === key);
+    const p75 = numeric(metric.percentiles.p75);
+    const histogram = metric.histogram || [];
+    const rating = definition && p75 !== null ? rate(p75, definition) : null;
+    metrics[key] = {
+      p75: metric.percentiles.p75,
+      histogram,
+      rating,
+      passed: rating === null ? null : rating === "good",
+      distribution: definition ? distributionOf(histogram) : null,
+    };
+  }
+
+  const assessed = FIELD_METRICS.filter((m) => m.coreWebVital && metrics[m.key]?.passed != null);
+  const failing = assessed.filter((m) => !metrics[m.key].passed).map((m) => m.label);
+
+  return {
+    formFactor: record.key.formFactor ?? null,
+    collectionPeriod: record.collectionPeriod
+      ? { firstDate: isoDate(record.collectionPeriod.firstDate), lastDate: isoDate(record.collectionPeriod.lastDate) }
+      : null,
+    metrics,
+    fractions,
+    coreWebVitals: { passed: assessed.length === 0 ? null : failing.length === 0, failing },
+  };
+}
+
+const BAR_WIDTH = 20;
+
+function percentBar(fraction: number): string {
+  const filled = Math.round(Math.max(0, Math.min(1, fraction)) * BAR_WIDTH);
+  return `${"█".repeat(filled)}${"░".repeat(BAR_WIDTH - filled)} ${(fraction * 100).toFixed(1).padStart(5)}%`;
+}
+
+function barBlock(rows: Array<[string, number]>): string {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return "```\n" + rows.map(([label, fraction]) => `${label.padEnd(width)}  ${percentBar(fraction)}`).join("\n") + "\n```\n";
+}
+
+function formatThreshold(value: number, unit: string): string {
+  return `${value}${unit}`;
+}
+
+/**
+ * Markdown for one CrUX snapshot. `heading` and `subject` keep the wording the
+ * page and origin tools have always used ("**URL:**" vs "**Origin:**").
+ */
+export function formatCruxRecord(
+  cruxData: CruxRecord,
+  heading: string,
+  subject: { label: string; value: string }
+): string {
+  const summary = summarizeCruxRecord(cruxData);
+  if (!summary) return "";
+
+  let report = `# ${heading}\n\n`;
+  report += `**${subject.label}:** ${subject.value}\n`;
+  report += `**Form Factor:** ${summary.formFactor ?? "ALL"}\n`;
+  if (summary.collectionPeriod) {
+    report += `**Collection Period:** ${summary.collectionPeriod.firstDate} → ${summary.collectionPeriod.lastDate}\n`;
+  }
+
+  const { passed, failing } = summary.coreWebVitals;
+  if (passed !== null) {
+    report += `\n## Core Web Vitals Assessment: ${passed ? "✅ Passed" : "❌ Failed"}\n`;
+    report += passed
+      ? `LCP, INP and CLS are all good at the 75th percentile.\n`
+      : `Failing at p75: ${failing.join(", ")}.\n`;
+  }
+
+  report += `\n## Core Web Vitals (Real User Data)\n`;
+  for (const metric of FIELD_METRICS) {
+    const data = summary.metrics[metric.key];
+    if (!data) continue;
+    const threshold = `good ≤ ${formatThreshold(metric.good, metric.unit)}`;
+    const verdict = data.passed ? `✅ pass (${threshold})` : `❌ fail — ${data.rating} (${threshold})`;
+    report += `- **${metric.title}**: ${data.p75}${metric.unit} (p75) ${verdict}\n`;
+    if (data.distribution) {
+      report += barBlock([
+        ["Good", data.distribution.good],
+        ["Needs improvement", data.distribution.needsImprovement],
+        ["Poor", data.distribution.poor],
+      ]);
+    }
+  }
+
+  const rtt = summary.metrics.round_trip_time;
+  const navigation = summary.fractions.navigation_types;
+  const formFactors = summary.fractions.form_factors;
+  if (rtt || navigation || formFactors) {
+    report += `\n## Network & Navigation\n`;
+    if (rtt) {
+      report += `- **Round Trip Time**: ${rtt.p75}ms (p75)\n`;
+    }
+    for (const { key, title } of FRACTION_METRICS.filter((m) => m.key !== "largest_contentful_paint_resource_type")) {
+      const fractions = summary.fractions[key];
+      if (fractions) {
+        report += `\n**${title}**\n` + barBlock(Object.entries(fractions).sort(([, a], [, b]) => b - a));
+      }
+    }
+  }
+
+  const resourceTypes = summary.fractions.largest_contentful_paint_resource_type;
+  const subparts = LCP_IMAGE_SUBPARTS.filter((part) => summary.metrics[part.key]);
+  if (resourceTypes || subparts.length > 0) {
+    report += `\n## LCP Breakdown\n`;
+    if (resourceTypes) {
+      report += `\n**LCP Resource Type**\n` + barBlock(Object.entries(resourceTypes).sort(([, a], [, b]) => b - a));
+    }
+    if (subparts.length > 0) {
+      const values = subparts.map((part) => ({ ...part, p75: numeric(summary.metrics[part.key].p75) ?? 0 }));
+      const largest = values.reduce((a, b) => (b.p75 > a.p75 ? b : a));
+      report += `\n**Image LCP subparts (p75)**\n`;
+      for (const part of values) {
+        report += `- ${part.title}: ${part.p75}ms${part === largest ? " ← largest share" : ""}\n`;
+      }
+    }
+  }
+
+  return report;
+}
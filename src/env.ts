@@ -1,13 +1,56 @@
 import { z } from "zod";
 
 const EnvSchema = z.object({
-  GOOGLE_API_KEY: z.string().min(1, "Google API key is required"),
+  GOOGLE_API_KEY: z.string().min(1).optional(),
+  // Comma- or whitespace-separated; used together with GOOGLE_API_KEY
+  GOOGLE_API_KEYS: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(/[\s,]+/).filter(Boolean) : [])),
+  KEY_ROTATION: z.enum(["round-robin", "least-used"]).default("round-robin"),
+  PSI_BASE_URL: z
+    .url({ protocol: /^https?$/ })
+    .default("https://www.googleapis.com/pagespeedonline/v5")
+    .transform((url) => url.replace(/\/+$/, "")),
+  CRUX_BASE_URL: z
+    .url({ protocol: /^https?$/ })
+    .default("https://chromeuxreport.googleapis.com/v1")
+    .transform((url) => url.replace(/\/+$/, "")),
+  HTTPS_PROXY: z.url().optional(),
+  HTTP_PROXY: z.url().optional(),
+  NO_PROXY: z.string().optional(),
+  // record: save every PSI/CrUX response to FIXTURES_DIR; replay: answer only from those files
+  PSI_MODE: z.enum(["live", "record", "replay"]).default("live"),
+  FIXTURES_DIR: z.string().min(1).optional(),
   LOG_LEVEL: z.enum(["trace", "debug", "info", "warn", "error", "fatal"]).default("info"),
   MAX_CONCURRENCY: z.coerce.number().min(1).max(10).default(3),
   REQUEST_TIMEOUT: z.coerce.number().min(1000).max(60000).default(30000),
   RETRY_ATTEMPTS: z.coerce.number().min(0).max(5).default(3),
   CACHE_TTL: z.coerce.number().min(60).max(86400).default(3600),
+  CACHE_MAX_ENTRIES: z.coerce.number().int().min(1).default(500),
+  CACHE_MAX_BYTES: z.coerce.number().int().min(1024 * 1024).default(256 * 1024 * 1024),
+  CACHE_BACKEND: z.enum(["memory", "disk"]).default("memory"),
+  CACHE_DIR: z.string().min(1).optional(),
+  PSI_REQUESTS_PER_MINUTE: z.coerce.number().int().min(1).default(240),
+  PSI_REQUESTS_PER_DAY: z.coerce.number().int().min(1).optional(),
+  CRUX_REQUESTS_PER_MINUTE: z.coerce.number().int().min(1).default(150),
+  CRUX_REQUESTS_PER_DAY: z.coerce.number().int().min(1).optional(),
+  USAGE_FILE: z.string().min(1).optional(),
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+  TRANSPORT: z.enum(["stdio", "http"]).default("stdio"),
+  PORT: z.coerce.number().int().min(0).max(65535).default(3000),
+  HOST: z.string().min(1).default("127.0.0.1"),
+  // Host headers the HTTP transport answers, comma-separated host[:port]; loopback names when unset
+  ALLOWED_HOSTS: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(/[\s,]+/).filter(Boolean) : [])),
+  // An HTTP session with no request for this long is closed; clients that vanish never send DELETE
+  HTTP_SESSION_IDLE_MS: z.coerce.number().int().min(1).default(30 * 60 * 1000),
+  // Replay never calls Google, so it runs without a key
+}).refine((env) => env.PSI_MODE === "replay" || env.GOOGLE_API_KEY || env.GOOGLE_API_KEYS.length > 0, {
+  message: "Google API key is required (GOOGLE_API_KEY or GOOGLE_API_KEYS)",
+  path: ["GOOGLE_API_KEY"],
 });
 
 export type Environment = z.infer<typeof EnvSchema>;
@@ -19,7 +62,13 @@ export function getEnv(): Environment {
     return cachedEnv;
   }
 
-  const result = EnvSchema.safeParse(process.env);
+  const result = EnvSchema.safeParse({
+    ...process.env,
+    // Proxy variables are as often lowercase as not
+    HTTPS_PROXY: process.env.HTTPS_PROXY || process.env.https_proxy || undefined,
+    HTTP_PROXY: process.env.HTTP_PROXY || process.env.http_proxy || undefined,
+    NO_PROXY: process.env.NO_PROXY || process.env.no_proxy || undefined,
+  });
   
   if (!result.success) {
     const errors = result.error.issues
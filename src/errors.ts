@@ -0,0 +1,289 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Api } from "./rate-limiter.js";
+import { isCancelled } from "./cancellation.js";
+
+/**
+ * Failures of the Google APIs, typed so callers can tell a page problem from
+ * a quota problem from Google having a bad day. Every message has already
+ * been through key redaction.
+ */
+
+/** What went wrong, as far as an agent needs to know to decide what to do next. */
+export type FailureKind =
+  | "unreachable"
+  | "dns-failure"
+  | "timeout"
+  | "no-fcp"
+  | "blocked-by-robots"
+  | "captcha"
+  | "invalid-api-key"
+  | "invalid-url"
+  | "quota"
+  | "rate-limited"
+  | "upstream-unavailable"
+  | "cancelled"
+  | "no-baseline"
+  | "not-cached"
+  | "invalid-input"
+  | "unknown-analysis"
+  | "unknown";
+
+/** Lighthouse ran but could not measure the page. */
+export type PageFailureKind = Extract<FailureKind, "unreachable" | "dns-failure" | "timeout" | "no-fcp" | "blocked-by-robots" | "captcha">;
+
+export type FailureAction = "retry" | "retry-later" | "switch-strategy" | "fix-input" | "tell-user";
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly api: Api,
+    /** HTTP status, or null when no response arrived (network error, timeout). */
+    readonly status: number | null = null,
+    /** Whether the same request may succeed when tried again. */
+    readonly retryable = false,
+    readonly kind: FailureKind = "unknown"
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+/** The API's quota is used up: retrying before it resets only wastes time. */
+export class QuotaError extends UpstreamError {
+  constructor(message: string, api: Api) {
+    super(message, api, 429, false, "quota");
+    this.name = "QuotaError";
+  }
+}
+
+/**
+ * Google answered 429 or RESOURCE_EXHAUSTED. A per-minute limit is worth
+ * retrying once the backoff has passed; a spent daily quota is not.
+ */
+export class RateLimitError extends UpstreamError {
+  constructor(
+    message: string,
+    api: Api,
+    readonly retryAfterMs: number | null,
+    readonly daily: boolean
+  ) {
+    super(message, api, 429, !daily, daily ? "quota" : "rate-limited");
+    this.name = "RateLimitError";
+  }
+}
+
+/** Google rejected the URL itself; fix the URL rather than retry. */
+export class InvalidUrlError extends UpstreamError {
+  constructor(message: string, api: Api) {
+    super(message, api, 400, false, "invalid-url");
+    this.name = "InvalidUrlError";
+  }
+}
+
+/** Arguments that do not fit the tool, or name an analysis that is not stored. */
+export class InvalidInputError extends Error {
+  constructor(
+    message: string,
+    readonly kind: Extract<FailureKind, "invalid-input" | "unknown-analysis"> = "invalid-input"
+  ) {
+    super(message);
+    this.name = "InvalidInputError";
+  }
+}
+
+/** compare_baseline was pointed at a snapshot that was never saved. */
+export class BaselineNotFoundError extends Error {
+  readonly kind = "no-baseline";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "BaselineNotFoundError";
+  }
+}
+
+/** freshness "cached-only" asked for an analysis that is not in the cache. */
+export class CacheMissError extends Error {
+  readonly kind = "not-cached";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "CacheMissError";
+  }
+}
+
+/** Lighthouse could not load the page: the site is the problem, not the API. */
+export class UnreachablePageError extends UpstreamError {
+  constructor(message: string, api: Api, status: number | null, kind: PageFailureKind = "unreachable") {
+    super(message, api, status, false, kind);
+    this.name = "UnreachablePageError";
+  }
+}
+
+// Lighthouse runtime error codes and Chrome net errors, most specific first:
+// a FAILED_DOCUMENT_REQUEST caused by ERR_NAME_NOT_RESOLVED is a DNS failure.
+const PAGE_FAILURES: Array<[PageFailureKind, RegExp]> = [
+  ["dns-failure", /DNS_FAILURE|ERR_NAME_NOT_RESOLVED|ERR_NAME_RESOLUTION_FAILED/i],
+  ["blocked-by-robots", /robots\.txt|BLOCKED_BY_ROBOTS|blocked by robots/i],
+  ["captcha", /captcha|bot protection|(FAILED|ERRORED)_DOCUMENT_REQUEST[\s\S]*Status code: (403|429)/i],
+  ["no-fcp", /NO_FCP|did not paint any content/i],
+  ["timeout", /PAGE_HUNG|PROTOCOL_TIMEOUT|CRI_TIMEOUT|ERR_TIMED_OUT|ERR_CONNECTION_TIMED_OUT|took too long/i],
+  ["unreachable", /Lighthouse returned error|FAILED_DOCUMENT_REQUEST|ERRORED_DOCUMENT_REQUEST|CHROME_INTERSTITIAL_ERROR|INSECURE_DOCUMENT_REQUEST|NOT_HTML|unable to reliably load/i],
+];
+
+/** The page failure a PSI error body or Lighthouse runtimeError describes, if any. */
+export function parsePageFailure(text: string): PageFailureKind | null {
+  return PAGE_FAILURES.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+/** `error.message` of a Google JSON error body, or the body itself cut to a readable length. */
+export function googleErrorMessage(body: string): string {
+  try {
+    const message = (JSON.parse(body) as { error?: { message?: unknown } }).error?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // Not JSON: an HTML error page or plain text
+  }
+  const text = body.replace(/\s+/g, " ").trim();
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
+
+interface FailureGuidance {
+  retryable: boolean;
+  action: FailureAction;
+  hint: string;
+}
+
+const GUIDANCE: Record<FailureKind, FailureGuidance> = {
+  unreachable: {
+    retryable: false,
+    action: "tell-user",
+    hint: "Lighthouse could not load the page. Check that the URL opens from outside your network (no VPN, login or IP allowlist) and answers with HTTP 200.",
+  },
+  "dns-failure": {
+    retryable: false,
+    action: "fix-input",
+    hint: "The domain name does not resolve. Check the spelling and that the DNS record is public.",
+  },
+  timeout: {
+    retryable: true,
+    action: "retry",
+    hint: "The page took too long to load. Retry once; if it keeps timing out, the server is too slow for Lighthouse, so check its response time.",
+  },
+  "no-fcp": {
+    retryable: true,
+    action: "switch-strategy",
+    hint: "The page painted nothing during the load (blank page, content behind a consent wall, or rendered only after interaction). Try the other strategy; if it persists, check the page renders without user input.",
+  },
+  "blocked-by-robots": {
+    retryable: false,
+    action: "tell-user",
+    hint: "robots.txt or the server blocks Lighthouse. Allow the Chrome-Lighthouse user agent to analyse the page.",
+  },
+  captcha: {
+    retryable: false,
+    action: "tell-user",
+    hint: "A CAPTCHA or bot protection answered instead of the page. Allowlist the Chrome-Lighthouse user agent, or analyse a page that is not behind the challenge.",
+  },
+  "invalid-api-key": {
+    retryable: false,
+    action: "tell-user",
+    hint: "Google rejected the API key. Check GOOGLE_API_KEY, that the PageSpeed Insights API (and the Chrome UX Report API for field data) is enabled in its project, and any key restrictions.",
+  },
+  "invalid-url": {
+    retryable: false,
+    action: "fix-input",
+    hint: "Google rejected the URL. Pass a full, public http(s) URL such as https://example.com/page.",
+  },
+  quota: {
+    retryable: false,
+    action: "retry-later",
+    hint: "The API quota is used up. Wait for it to reset, or add keys from other projects to GOOGLE_API_KEYS.",
+  },
+  "rate-limited": {
+    retryable: true,
+    action: "retry-later",
+    hint: "Google is throttling requests for the minute. Retry in a minute; lower PSI_REQUESTS_PER_MINUTE or CRUX_REQUESTS_PER_MINUTE if it keeps happening.",
+  },
+  "upstream-unavailable": {
+    retryable: true,
+    action: "retry-later",
+    hint: "Google's API is failing or unreachable right now. Try again in a minute.",
+  },
+  cancelled: {
+    retryable: true,
+    action: "retry",
+    hint: "The call was cancelled before it finished.",
+  },
+  "not-cached": {
+    retryable: false,
+    action: "fix-input",
+    hint: "Nothing is cached for this URL and strategy. Leave freshness out (or use prefer-cache) to run a new analysis.",
+  },
+  "no-baseline": {
+    retryable: false,
+    action: "fix-input",
+    hint: "Nothing is saved under that baseline name. Check list_baselines, or call compare_baseline without compare_to to record it first.",
+  },
+  "invalid-input": {
+    retryable: false,
+    action: "fix-input",
+    hint: "The arguments do not match the tool's input schema. Correct the fields named in the message and call again.",
+  },
+  "unknown-analysis": {
+    retryable: false,
+    action: "fix-input",
+    hint: "Only the most recent analyses are kept. Pass the url instead of the analysisId to run the analysis again.",
+  },
+  unknown: {
+    retryable: false,
+    action: "tell-user",
+    hint: "Unexpected error; the message has the details.",
+  },
+};
+
+export interface Failure extends FailureGuidance {
+  kind: FailureKind;
+  message: string;
+  /** HTTP status from Google, when there was one. */
+  status: number | null;
+}
+
+export function describeFailure(error: unknown): Failure {
+  const message = error instanceof Error ? error.message : "Unknown error occurred";
+  let kind: FailureKind = "unknown";
+  let status: number | null = null;
+  if (isCancelled(error)) {
+    kind = "cancelled";
+  } else if (error instanceof UpstreamError) {
+    kind = error.kind;
+    status = error.status;
+  } else if (
+    error instanceof BaselineNotFoundError ||
+    error instanceof CacheMissError ||
+    error instanceof InvalidInputError
+  ) {
+    kind = error.kind;
+  }
+  return { kind, message, status, ...GUIDANCE[kind] };
+}
+
+/** The text of an isError tool result: the message, then what to do about it. */
+export function formatFailure(doing: string, failure: Failure): string {
+  let text = `Error ${doing}: ${failure.message}`;
+  text += `\n\n**Cause:** ${failure.kind} (${failure.retryable ? "retryable" : "not retryable"}; suggested action: ${failure.action})\n`;
+  text += `**Hint:** ${failure.hint}`;
+  return text;
+}
+
+/**
+ * An isError tool result: the text for the model, and the same failure under
+ * `_meta.failure` for clients that branch on it. Not structuredContent, which
+ * clients validate against the tool's output schema.
+ */
+export function failureResult(doing: string, failure: Failure): CallToolResult {
+  return {
+    content: [{ type: "text", text: formatFailure(doing, failure) }],
+    isError: true,
+    _meta: { failure },
+  };
+}
@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type { Environment } from "./env.js";
+import { getLogger } from "./logger.js";
+import { UpstreamError } from "./errors.js";
+import { API_LABELS } from "./rate-limiter.js";
+import type { UpstreamRequest, UpstreamResponse } from "./upstream.js";
+
+const logger = getLogger();
+
+/**
+ * Recorded PSI and CrUX responses, so a workshop, a demo or an evaluation
+ * run can be played back without touching the network. With PSI_MODE=record
+ * every upstream answer is written to FIXTURES_DIR, one JSON file per
+ * distinct request (endpoint, query parameters and body; never the key).
+ * With PSI_MODE=replay the same requests are answered from those files and
+ * anything not recorded fails instead of going out to Google.
+ *
+ * A request made several times (multirun) records each answer in turn, and
+ * replay hands them out in the same order, starting over when they run out.
+ */
+
+export type FixtureMode = "record" | "replay";
+
+interface RecordedRequest {
+  api: UpstreamRequest["api"];
+  endpoint: string;
+  params: Array<[string, string]>;
+  body?: unknown;
+}
+
+interface FixtureFile {
+  request: RecordedRequest;
+  responses: Array<UpstreamResponse<unknown>>;
+}
+
+// What identifies a request, independent of base URL, key and parameter order.
+function describeRequest(req: UpstreamRequest): RecordedRequest {
+  const url = new URL(req.url);
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => name !== "key")
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  const endpoint = url.pathname.split("/").pop() ?? "";
+  return { api: req.api, endpoint, params, ...(req.body !== undefined && { body: req.body }) };
+}
+
+export class FixtureStore {
+  // Files rewritten by this process: the first answer replaces an older recording
+  private readonly recorded = new Set<string>();
+  // Next response to hand out, per fixture file
+  private readonly cursors = new Map<string, number>();
+
+  constructor(
+    readonly mode: FixtureMode,
+    private readonly dir: string
+  ) {}
+
+  get replaying(): boolean {
+    return this.mode === "replay";
+  }
+
+  private fileFor(request: RecordedRequest): string {
+    const hash = createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 16);
+    const endpoint = request.endpoint.replace(/[^a-z0-9]+/gi, "-");
+    return join(this.dir, `${request.api}-${endpoint}-${hash}.json`);
+  }
+
+  private load(file: string): FixtureFile | null {
+    try {
+      return JSON.parse(readFileSync(file, "utf8")) as FixtureFile;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(file: string, fixture: FixtureFile): void {
+    const temp = `${file}.${process.pid}.tmp`;
+    try {
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(temp, `${JSON.stringify(fixture, null, 2)}\n`);
+      renameSync(temp, file);
+    } catch (error) {
+      logger.warn({ file, error: (error as Error).message }, "Failed to record fixture");
+    }
+  }
+
+  /** Answer `req` from a fixture (replay), or through `send` and write the answer down (record). */
+  async request<T>(
+    req: UpstreamRequest,
+    send: (req: UpstreamRequest) => Promise<UpstreamResponse<T>>
+  ): Promise<UpstreamResponse<T>> {
+    const request = describeRequest(req);
+    const file = this.fileFor(request);
+
+    if (this.replaying) {
+      const fixture = this.load(file);
+      if (!fixture || fixture.responses.length === 0) {
+        throw new UpstreamError(
+          `No recorded ${API_LABELS[req.api]} response for ${request.endpoint} ${JSON.stringify(request.body ?? Object.fromEntries(request.params))} in ${this.dir}; PSI_MODE=replay makes no network calls, so record it first with PSI_MODE=record`,
+          req.api
+        );
+      }
+      const index = this.cursors.get(file) ?? 0;
+      this.cursors.set(file, index + 1);
+      logger.debug({ file, index }, "Replaying fixture");
+      return fixture.responses[index % fixture.responses.length] as UpstreamResponse<T>;
+    }
+
+    const response = await send(req);
+    const earlier = this.recorded.has(file) ? this.load(file)?.responses ?? [] : [];
+    this.recorded.add(file);
+    this.save(file, { request, responses: [...earlier, response] });
+    logger.debug({ file, responses: earlier.length + 1 }, "Recorded fixture");
+    return response;
+  }
+}
+
+/** The fixture store PSI_MODE asks for, or undefined when calling Google live. */
+export function createFixtureStore(env: Pick<Environment, "PSI_MODE" | "FIXTURES_DIR">): FixtureStore | undefined {
+  if (env.PSI_MODE !== "record" && env.PSI_MODE !== "replay") return undefined;
+  const dir = env.FIXTURES_DIR || join(homedir(), ".pagespeed-mcp", "fixtures");
+  logger.info({ mode: env.PSI_MODE, dir }, "Using API fixtures");
+  return new FixtureStore(env.PSI_MODE, dir);
+}
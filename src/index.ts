@@ -2,48 +2,185 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  Tool,
+  McpError,
+  ReadResourceRequestSchema,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { randomUUID } from "crypto";
 import { realpathSync } from "fs";
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from "http";
 import { createRequire } from "module";
 import { fileURLToPath } from "url";
-import { validateEnv } from "./env.js";
+import { getEnv, validateEnv } from "./env.js";
 import { getLogger, createRequestLogger } from "./logger.js";
-import { PageSpeedClient } from "./pagespeed-client.js";
-import { cache } from "./cache.js";
+import { PageSpeedClient, type CacheStatus, type RequestOptions } from "./pagespeed-client.js";
+import { isCancelled, throwIfCancelled } from "./cancellation.js";
+import { BaselineNotFoundError, InvalidInputError, describeFailure, failureResult } from "./errors.js";
+import { McpProgressReporter } from "./progress.js";
+import { parseCruxHistory, findThresholdCrossings, formatCruxHistoryReport } from "./crux-history.js";
+import { formatCruxRecord, summarizeCruxRecord } from "./crux-report.js";
+import { compareLabField, formatLabFieldComparison, type LabFieldComparison } from "./lab-field.js";
+import { cache, describeCacheKey } from "./cache.js";
+import { analysisStore, analysisResourceUri, parseAnalysisResourceUri } from "./analysis-store.js";
+import { PROMPTS, findPrompt } from "./prompts.js";
 import { PerformanceRecommendationsEngine } from "./recommendations.js";
 import { ResponseParser } from "./response-parser.js";
 import {
   AnalyzePageSpeedSchema,
   PerformanceSummarySchema,
   CruxSummarySchema,
+  CruxHistorySchema,
   OriginCruxSchema,
   CompareUrlsSchema,
   BatchAnalyzeSchema,
-  UrlSchema,
+  CacheStatsSchema,
+  ClearCacheSchema,
+  CompareBaselineSchema,
+  DeleteBaselineSchema,
+  DrillDownSchema,
+  FullAuditSchema,
+  ListBaselinesSchema,
+  RecommendationsSchema,
+  describeZodError,
   type AnalyzePageSpeedInput,
+  type BatchAnalyzeInput,
+  type ClearCacheInput,
+  type CompareBaselineInput,
+  type CompareUrlsInput,
+  type CruxSummaryInput,
+  type CruxHistoryInput,
+  type DeleteBaselineInput,
+  type DrillDownInput,
+  type FullAuditInput,
+  type ListBaselinesInput,
+  type OriginCruxInput,
+  type PerformanceSummaryInput,
+  type RecommendationsInput,
 } from "./schemas.js";
+import { ToolRegistry, type ToolContext } from "./tool-registry.js";
 import type { PageSpeedInsightsResponse, CruxRecord, ComparisonResult } from "./types.js";
-import { getBaseline, saveBaseline, compareBaselines } from "./baselines.js";
+import {
+  AnalysisOutputSchema,
+  BatchOutputSchema,
+  CacheStatsOutputSchema,
+  ClearCacheOutputSchema,
+  CompareBaselineOutputSchema,
+  ComparisonOutputSchema,
+  CruxOutputSchema,
+  CruxHistoryOutputSchema,
+  DeleteBaselineOutputSchema,
+  ElementOutputSchema,
+  FullAuditOutputSchema,
+  FullReportOutputSchema,
+  ImageOutputSchema,
+  JavaScriptOutputSchema,
+  ListBaselinesOutputSchema,
+  NetworkOutputSchema,
+  OriginCruxOutputSchema,
+  PerformanceMapOutputSchema,
+  PerformanceSummaryOutputSchema,
+  RecommendationsOutputSchema,
+  RenderBlockingOutputSchema,
+  ThirdPartyOutputSchema,
+  VisualOutputSchema,
+} from "./output-schemas.js";
+import type {
+  AnalysisOutput,
+  BatchOutput,
+  CacheStatsOutput,
+  CompareBaselineOutput,
+  ComparisonOutput,
+  CruxOutput,
+  CruxHistoryOutput,
+  DataSource,
+  DeleteBaselineOutput,
+  ElementOutput,
+  FullAuditOutput,
+  FullReportOutput,
+  ImageOutput,
+  JavaScriptOutput,
+  ListBaselinesOutput,
+  NetworkOutput,
+  OriginCruxOutput,
+  PerformanceMapOutput,
+  PerformanceSummaryOutput,
+  RecommendationsOutput,
+  RenderBlockingOutput,
+  ThirdPartyOutput,
+  VisualOutput,
+} from "./output-schemas.js";
+import {
+  clearBaseline,
+  compareBaselines,
+  getBaseline,
+  listBaselines,
+  saveBaseline,
+  strategyGaps,
+  type RangeVerdict,
+  type StrategyGap,
+} from "./baselines.js";
+import type { MetricSpread, MultirunSummary } from "./multirun.js";
 import { z } from "zod";
 
 const pkg = createRequire(import.meta.url)("../package.json") as { version: string };
 
+// Lab metric thresholds (good / needs-improvement upper bounds) used by the
+// performance map.
+const MAP_VITALS = [
+  { id: "largest-contentful-paint", label: "LCP", good: 2500, mediocre: 4000 },
+  { id: "cumulative-layout-shift", label: "CLS", good: 0.1, mediocre: 0.25 },
+  { id: "total-blocking-time", label: "TBT", good: 200, mediocre: 600 },
+  { id: "first-contentful-paint", label: "FCP", good: 1800, mediocre: 3000 },
+  { id: "speed-index", label: "SI", good: 3400, mediocre: 5800 },
+];
+
+// Lighthouse metric audits surfaced in structured analysis output.
+const KEY_LAB_METRICS = [
+  "first-contentful-paint",
+  "largest-contentful-paint",
+  "total-blocking-time",
+  "cumulative-layout-shift",
+  "speed-index",
+  "interactive",
+  "max-potential-fid",
+  "server-response-time",
+];
+
 export class PageSpeedInsightsServer {
   private server: Server;
   private client: PageSpeedClient;
   private recommendationsEngine: PerformanceRecommendationsEngine;
+  private tools: ToolRegistry;
   private logger = getLogger();
+  private httpServer?: HttpServer;
+  private httpSessions = new Map<string, HttpSession>();
+  private allowedHosts: string[] = [];
+  private sessionIdleMs = 0;
 
   constructor() {
     // Validate environment first
     validateEnv();
-    
-    this.server = new Server(
+
+    this.client = new PageSpeedClient();
+    this.recommendationsEngine = new PerformanceRecommendationsEngine();
+    this.tools = this.createToolRegistry();
+    this.server = this.createMcpServer();
+  }
+
+  // One protocol Server per connection: stdio has exactly one, HTTP gets one
+  // per session. They all share this instance's client, so every session
+  // draws on the same cache and the same quota.
+  private createMcpServer(): Server {
+    const server = new Server(
       {
         name: "pagespeed-insights-mcp",
         version: pkg.version,
@@ -51,534 +188,408 @@ export class PageSpeedInsightsServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
+    this.setupTools(server);
+    this.setupResources(server);
+    this.setupPrompts(server);
+    return server;
+  }
 
-    this.client = new PageSpeedClient();
-    this.recommendationsEngine = new PerformanceRecommendationsEngine();
-    this.setupTools();
+  // The one place tools are declared; tools/list, argument validation and
+  // dispatch all read from it.
+  private createToolRegistry(): ToolRegistry {
+    return new ToolRegistry()
+      .register({
+        name: "analyze_page_speed",
+        description: "Run comprehensive Google PageSpeed Insights analysis with Lighthouse metrics",
+        inputSchema: AnalyzePageSpeedSchema,
+        outputSchema: AnalysisOutputSchema,
+        handler: (input, context) => this.handleAnalyzePageSpeed(input, context),
+      })
+      .register({
+        name: "get_performance_summary",
+        description: "Get simplified performance metrics and opportunities for a webpage",
+        inputSchema: PerformanceSummarySchema,
+        outputSchema: PerformanceSummaryOutputSchema,
+        handler: (input, context) => this.handlePerformanceSummary(input, context),
+      })
+      .register({
+        name: "crux_summary",
+        description: "Get Chrome User Experience Report real-world field data for Core Web Vitals",
+        inputSchema: CruxSummarySchema,
+        outputSchema: CruxOutputSchema,
+        handler: (input, context) => this.handleCruxSummary(input, context),
+      })
+      .register({
+        name: "compare_pages",
+        description: "Compare performance metrics between two URLs side-by-side",
+        inputSchema: CompareUrlsSchema,
+        outputSchema: ComparisonOutputSchema,
+        handler: (input, context) => this.handleComparePages(input, context),
+      })
+      .register({
+        name: "full_report",
+        description: "Unified report combining Lighthouse lab data with CrUX field data",
+        inputSchema: AnalyzePageSpeedSchema,
+        outputSchema: FullReportOutputSchema,
+        handler: (input, context) => this.handleFullReport(input, context),
+      })
+      .register({
+        name: "batch_analyze",
+        description: "Analyze performance for multiple URLs with progress tracking",
+        inputSchema: BatchAnalyzeSchema,
+        outputSchema: BatchOutputSchema,
+        handler: (input, context) => this.handleBatchAnalyze(input, context),
+      })
+      .register({
+        name: "clear_cache",
+        description:
+          "Clear the internal cache to force fresh API requests. Filter by URL pattern, strategy or cache type to invalidate one page after a deploy",
+        inputSchema: ClearCacheSchema,
+        outputSchema: ClearCacheOutputSchema,
+        handler: (input) => this.handleClearCache(input),
+      })
+      .register({
+        name: "cache_stats",
+        description: "List cached PSI and CrUX entries (URL, strategy, categories, age, size, expiry) with hit, miss and eviction counts",
+        inputSchema: CacheStatsSchema,
+        outputSchema: CacheStatsOutputSchema,
+        annotations: { readOnlyHint: true },
+        handler: () => this.handleCacheStats(),
+      })
+      .register({
+        name: "get_recommendations",
+        description: "Generate smart performance recommendations with priority scoring and actionable fixes",
+        inputSchema: RecommendationsSchema,
+        outputSchema: RecommendationsOutputSchema,
+        handler: (input, context) => this.handleGetRecommendations(input, context),
+      })
+      .register({
+        name: "get_visual_analysis",
+        description:
+          "Get screenshots and visual timeline showing how the page loads (final screenshot, filmstrip frames, full-page screenshot)",
+        inputSchema: DrillDownSchema,
+        outputSchema: VisualOutputSchema,
+        handler: (input, context) => this.handleGetVisualAnalysis(input, context),
+      })
+      .register({
+        name: "get_element_analysis",
+        description: "Get specific DOM elements causing performance issues (LCP element, CLS elements, lazy-loaded issues)",
+        inputSchema: DrillDownSchema,
+        outputSchema: ElementOutputSchema,
+        handler: (input, context) => this.handleGetElementAnalysis(input, context),
+      })
+      .register({
+        name: "get_network_analysis",
+        description: "Get detailed network waterfall showing all requests with timing, size, and priority",
+        inputSchema: DrillDownSchema,
+        outputSchema: NetworkOutputSchema,
+        handler: (input, context) => this.handleGetNetworkAnalysis(input, context),
+      })
+      .register({
+        name: "get_javascript_analysis",
+        description: "Get JavaScript execution breakdown showing bootup time, unused code, and main thread work",
+        inputSchema: DrillDownSchema,
+        outputSchema: JavaScriptOutputSchema,
+        handler: (input, context) => this.handleGetJavaScriptAnalysis(input, context),
+      })
+      .register({
+        name: "get_image_optimization_details",
+        description: "Get specific images needing optimization with exact savings potential",
+        inputSchema: DrillDownSchema,
+        outputSchema: ImageOutputSchema,
+        handler: (input, context) => this.handleGetImageOptimizationDetails(input, context),
+      })
+      .register({
+        name: "get_render_blocking_details",
+        description: "Get render-blocking resources and critical request chains showing loading dependencies",
+        inputSchema: DrillDownSchema,
+        outputSchema: RenderBlockingOutputSchema,
+        handler: (input, context) => this.handleGetRenderBlockingDetails(input, context),
+      })
+      .register({
+        name: "get_third_party_impact",
+        description: "Get third-party script impact analysis grouped by entity (Google, Facebook, etc.)",
+        inputSchema: DrillDownSchema,
+        outputSchema: ThirdPartyOutputSchema,
+        handler: (input, context) => this.handleGetThirdPartyImpact(input, context),
+      })
+      .register({
+        name: "get_full_audit",
+        description:
+          "Get comprehensive audit results for all categories (performance, accessibility, SEO, best practices, PWA)",
+        inputSchema: FullAuditSchema,
+        outputSchema: FullAuditOutputSchema,
+        handler: (input, context) => this.handleGetFullAudit(input, context),
+      })
+      .register({
+        name: "get_performance_map",
+        description:
+          "Generate a Mermaid flowchart visualizing the performance score, Core Web Vitals status, and top optimization opportunities in a single visual map",
+        inputSchema: PerformanceSummarySchema,
+        outputSchema: PerformanceMapOutputSchema,
+        handler: (input, context) => this.handlePerformanceMap(input, context),
+      })
+      .register({
+        name: "get_origin_crux",
+        description:
+          "Get Chrome UX Report field data for an entire origin (domain-level), aggregating real-user Core Web Vitals across all pages — useful when a single URL lacks enough traffic for page-level data",
+        inputSchema: OriginCruxSchema,
+        outputSchema: OriginCruxOutputSchema,
+        handler: (input, context) => this.handleGetOriginCrux(input, context),
+      })
+      .register({
+        name: "crux_history",
+        description:
+          "Get the weekly Chrome UX Report p75 trend of LCP, INP, CLS, FCP and TTFB for a URL or origin over up to 40 collection periods, with a chart and every Core Web Vitals threshold crossing — use it to spot field regressions",
+        inputSchema: CruxHistorySchema,
+        outputSchema: CruxHistoryOutputSchema,
+        handler: (input, context) => this.handleCruxHistory(input, context),
+      })
+      .register({
+        name: "compare_baseline",
+        description:
+          "Answer 'did that change actually help'. FIRST call on a URL+strategy records the baseline and compares nothing; make your change, then call again. A verdict is only given where the two min-max ranges do NOT overlap — on an unchanged page the performance score has been measured running 27-37, so comparing medians alone reports improvements that are just the instrument moving. Reports both the median difference and the smaller figure the ranges actually guarantee (quote that one). Use runs>=3. Also flags a Lighthouse version change, which moves scores without the page moving. A page can keep several named baselines (baseline_name, e.g. one per branch or release); compare_to compares two saved ones without measuring.",
+        inputSchema: CompareBaselineSchema,
+        outputSchema: CompareBaselineOutputSchema,
+        annotations: { readOnlyHint: true },
+        handler: (input, context) => this.handleCompareBaseline(input, context),
+      })
+      .register({
+        name: "list_baselines",
+        description: "List saved compare_baseline snapshots (URL, strategy, name, when recorded, performance score range), newest first",
+        inputSchema: ListBaselinesSchema,
+        outputSchema: ListBaselinesOutputSchema,
+        annotations: { readOnlyHint: true },
+        handler: (input) => this.handleListBaselines(input),
+      })
+      .register({
+        name: "delete_baseline",
+        description: "Delete one saved compare_baseline snapshot, identified by URL, strategy and name",
+        inputSchema: DeleteBaselineSchema,
+        outputSchema: DeleteBaselineOutputSchema,
+        annotations: { destructiveHint: true, idempotentHint: true },
+        handler: (input) => this.handleDeleteBaseline(input),
+      });
+  }
+
+  private setupTools(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return { tools: this.tools.list() };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      // Long multirun calls (runs>1 → minutes) time out in most clients unless
+      // they hear progress, so each call that asked for it gets its own reporter.
+      const progress = progressToken === undefined
+        ? undefined
+        : new McpProgressReporter(progressToken, (params) =>
+            extra.sendNotification({ method: "notifications/progress", params })
+          );
+
+      try {
+        return await this.dispatchTool(name, args, { signal: extra.signal, progress });
+      } finally {
+        progress?.close();
+      }
+    });
+  }
+
+  private async dispatchTool(name: string, args: unknown, context: ToolContext = {}) {
+    return await this.tools.call(name, args, context);
   }
 
-  private setupTools() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  // Run an analysis and keep it under an id, so the agent can drill into the
+  // same run later (tools taking analysisId, psi://analysis/{id}/ resources).
+  private async analyze(input: AnalyzePageSpeedInput, correlationId: string, options: RequestOptions = {}) {
+    const cacheStatus: CacheStatus[] = [];
+    const result = await this.client.analyzePageSpeed(input, correlationId, {
+      ...options,
+      onCacheStatus: (status) => cacheStatus.push(status),
+    });
+    const analysisId = analysisStore.put(result, { url: input.url, strategy: input.strategy });
+    return { result, analysisId, dataSource: this.dataSourceOf(result, cacheStatus) };
+  }
+
+  // Where each strategy's numbers came from and how old the Lighthouse run is.
+  private dataSourceOf(data: PageSpeedInsightsResponse, cacheStatus: CacheStatus[]): DataSource[] {
+    return cacheStatus.map((status) => {
+      const run = status.strategy === "desktop" && data.desktopResult ? data.desktopResult : data;
+      const fetchTime = run.lighthouseResult?.fetchTime ?? run.analysisUTCTimestamp ?? null;
+      const fetchedAt = fetchTime ? Date.parse(fetchTime) : NaN;
       return {
-        tools: [
-          {
-            name: "analyze_page_speed",
-            description: "Run comprehensive Google PageSpeed Insights analysis with Lighthouse metrics",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                },
-                category: {
-                  type: "array",
-                  items: {
-                    type: "string",
-                    enum: ["performance", "accessibility", "best-practices", "seo", "pwa"]
-                  },
-                  default: ["performance"],
-                  description: "Categories to analyze"
-                },
-                locale: { 
-                  type: "string", 
-                  default: "en",
-                  description: "Locale for results" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_performance_summary",
-            description: "Get simplified performance metrics and opportunities for a webpage",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "crux_summary",
-            description: "Get Chrome User Experience Report real-world field data for Core Web Vitals",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                formFactor: {
-                  type: "string",
-                  enum: ["PHONE", "DESKTOP", "TABLET"],
-                  description: "Form factor for CrUX data"
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "compare_pages",
-            description: "Compare performance metrics between two URLs side-by-side",
-            inputSchema: {
-              type: "object",
-              properties: {
-                urlA: { type: "string", format: "uri", description: "First URL to compare" },
-                urlB: { type: "string", format: "uri", description: "Second URL to compare" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                },
-                categories: {
-                  type: "array",
-                  items: {
-                    type: "string",
-                    enum: ["performance", "accessibility", "best-practices", "seo", "pwa"]
-                  },
-                  default: ["performance"],
-                  description: "Categories to compare"
-                }
-              },
-              required: ["urlA", "urlB"]
-            },
-          },
-          {
-            name: "full_report",
-            description: "Unified report combining Lighthouse lab data with CrUX field data",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                },
-                category: {
-                  type: "array",
-                  items: {
-                    type: "string",
-                    enum: ["performance", "accessibility", "best-practices", "seo", "pwa"]
-                  },
-                  default: ["performance"],
-                  description: "Categories to analyze"
-                },
-                locale: { 
-                  type: "string", 
-                  default: "en",
-                  description: "Locale for results" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "batch_analyze",
-            description: "Analyze performance for multiple URLs with progress tracking",
-            inputSchema: {
-              type: "object",
-              properties: {
-                urls: {
-                  type: "array",
-                  items: { type: "string", format: "uri" },
-                  minItems: 1,
-                  maxItems: 10,
-                  description: "URLs to analyze (max 10)"
-                },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                },
-                category: {
-                  type: "array",
-                  items: {
-                    type: "string",
-                    enum: ["performance", "accessibility", "best-practices", "seo", "pwa"]
-                  },
-                  default: ["performance"],
-                  description: "Categories to analyze"
-                },
-                locale: { 
-                  type: "string", 
-                  default: "en",
-                  description: "Locale for results" 
-                }
-              },
-              required: ["urls"]
-            },
-          },
-          {
-            name: "clear_cache",
-            description: "Clear the internal cache to force fresh API requests",
-            inputSchema: {
-              type: "object",
-              properties: {},
-              additionalProperties: false
-            },
-          },
-          {
-            name: "get_recommendations",
-            description: "Generate smart performance recommendations with priority scoring and actionable fixes",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze for recommendations" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                },
-                category: {
-                  type: "array",
-                  items: {
-                    type: "string",
-                    enum: ["performance", "accessibility", "best-practices", "seo", "pwa"]
-                  },
-                  default: ["performance", "accessibility", "best-practices", "seo"],
-                  description: "Categories to analyze for recommendations"
-                },
-                locale: { 
-                  type: "string", 
-                  default: "en",
-                  description: "Locale for results" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_visual_analysis",
-            description: "Get screenshots and visual timeline showing how the page loads (final screenshot, filmstrip frames, full-page screenshot)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_element_analysis",
-            description: "Get specific DOM elements causing performance issues (LCP element, CLS elements, lazy-loaded issues)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_network_analysis",
-            description: "Get detailed network waterfall showing all requests with timing, size, and priority",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_javascript_analysis",
-            description: "Get JavaScript execution breakdown showing bootup time, unused code, and main thread work",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_image_optimization_details",
-            description: "Get specific images needing optimization with exact savings potential",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_render_blocking_details",
-            description: "Get render-blocking resources and critical request chains showing loading dependencies",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_third_party_impact",
-            description: "Get third-party script impact analysis grouped by entity (Google, Facebook, etc.)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_full_audit",
-            description: "Get comprehensive audit results for all categories (performance, accessibility, SEO, best practices, PWA)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                },
-                categories: {
-                  type: "array",
-                  items: {
-                    type: "string",
-                    enum: ["performance", "accessibility", "best-practices", "seo", "pwa"]
-                  },
-                  default: ["performance", "accessibility", "best-practices", "seo"],
-                  description: "Categories to audit"
-                }
-              },
-              required: ["url"]
-            },
-          },
-          {
-            name: "get_performance_map",
-            description: "Generate a Mermaid flowchart visualizing the performance score, Core Web Vitals status, and top optimization opportunities in a single visual map",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to analyze" },
-                strategy: { 
-                  type: "string", 
-                  enum: ["mobile", "desktop", "both"], 
-                  default: "mobile",
-                  description: "Analysis strategy" 
-                }
-              },
-              required: ["url"]
-            },
-          },
+        ...status,
+        fetchTime,
+        ageSeconds: Number.isNaN(fetchedAt) ? null : Math.max(0, Math.round((Date.now() - fetchedAt) / 1000)),
+      };
+    });
+  }
+
+  // Drill-down tools answer from a stored analysis when given an analysisId
+  // and only spend quota on a fresh one when given a url.
+  private async loadAnalysis(
+    input: { url?: string; strategy: AnalyzePageSpeedInput["strategy"]; analysisId?: string; freshness?: AnalyzePageSpeedInput["freshness"] },
+    correlationId: string,
+    { category = ["performance"], ...options }: RequestOptions & { category?: AnalyzePageSpeedInput["category"] } = {}
+  ) {
+    if (input.analysisId) {
+      const stored = analysisStore.get(input.analysisId);
+      if (!stored) {
+        throw new InvalidInputError(
+          `Unknown analysisId "${input.analysisId}" — it may have been evicted; run the analysis again with a url`,
+          "unknown-analysis"
+        );
+      }
+      return { result: stored.result, analysisId: stored.id, url: stored.url, strategy: stored.strategy };
+    }
+    const url = input.url!;
+    const { result, analysisId } = await this.analyze(
+      { url, strategy: input.strategy, category, locale: "en", freshness: input.freshness },
+      correlationId,
+      options
+    );
+    return { result, analysisId, url, strategy: input.strategy as string };
+  }
+
+  private analysisLink(analysisId: string) {
+    return {
+      type: "resource_link" as const,
+      uri: analysisResourceUri(analysisId),
+      name: `analysis-${analysisId}`,
+      mimeType: "application/json",
+      description: "Raw Lighthouse result for this analysis; pass the analysisId to drill-down tools to reuse it",
+    };
+  }
+
+  private setupResources(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: analysisStore.list().map((analysis) => ({
+          uri: analysisResourceUri(analysis.id),
+          name: `${analysis.url} (${analysis.strategy})`,
+          mimeType: "application/json",
+          description: `Lighthouse result stored ${analysis.storedAt}`,
+        })),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
           {
-            name: "get_origin_crux",
-            description: "Get Chrome UX Report field data for an entire origin (domain-level), aggregating real-user Core Web Vitals across all pages — useful when a single URL lacks enough traffic for page-level data",
-            inputSchema: {
-              type: "object",
-              properties: {
-                origin: { type: "string", format: "uri", description: "The origin (scheme + host, e.g. https://example.com) to query" },
-                formFactor: {
-                  type: "string",
-                  enum: ["PHONE", "DESKTOP", "TABLET", "ALL"],
-                  default: "ALL",
-                  description: "Device form factor to filter field data"
-                }
-              },
-              required: ["origin"]
-            },
+            uriTemplate: "psi://analysis/{analysisId}/lighthouse.json",
+            name: "lighthouse-result",
+            mimeType: "application/json",
+            description: "Full Lighthouse result of a stored analysis",
           },
           {
-            name: "compare_baseline",
-            description:
-              "Answer 'did that change actually help'. FIRST call on a URL+strategy records the baseline and compares nothing; make your change, then call again. A verdict is only given where the two min-max ranges do NOT overlap — on an unchanged page the performance score has been measured running 27-37, so comparing medians alone reports improvements that are just the instrument moving. Reports both the median difference and the smaller figure the ranges actually guarantee (quote that one). Use runs>=3. Also flags a Lighthouse version change, which moves scores without the page moving.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: { type: "string", format: "uri", description: "The URL to measure" },
-                strategy: { type: "string", enum: ["mobile", "desktop"], default: "mobile", description: "Part of the baseline identity" },
-                runs: { type: "integer", minimum: 2, maximum: 5, default: 3, description: "Distinct analyses per side. Default 3 (~2 min)" },
-                save_baseline: { type: "boolean", default: false, description: "Replace the baseline with THIS measurement (move the starting point). Default false: repeated calls keep comparing against the original baseline" }
-              },
-              required: ["url"]
-            },
-            annotations: { readOnlyHint: true }
+            uriTemplate: "psi://analysis/{analysisId}/audits/{auditId}",
+            name: "lighthouse-audit",
+            mimeType: "application/json",
+            description: "A single Lighthouse audit (e.g. largest-contentful-paint) of a stored analysis",
           },
-        ] satisfies Tool[],
+        ],
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
-      const { name, arguments: args } = request.params;
-      const progressToken = (request.params._meta as any | undefined)?.progressToken;
-
-      // Long multirun calls (runs>1 → minutes) time out in most clients.
-      // Clients reset their timeout on progress notifications, so when a token
-      // is present we beat every 10s regardless — a single PSI call blocks for
-      // tens of seconds and no in-loop callback can cover that gap.
-      let keepalive: ReturnType<typeof setInterval> | undefined;
-      let done = 0;
-      const notify = async () => {
-        if (progressToken === undefined) return;
-        try {
-          await extra.sendNotification({
-            method: "notifications/progress",
-            params: { progressToken, progress: done, total: 100 },
-          });
-        } catch { /* client gone; the main call will fail anyway */ }
-      };
-      if (progressToken !== undefined) {
-        keepalive = setInterval(() => void notify(), 10_000);
-        (globalThis as any).__psiProgress = () => { done++; void notify(); };
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const parsed = parseAnalysisResourceUri(uri);
+      if (!parsed) {
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+      }
+      const stored = analysisStore.get(parsed.id);
+      if (!stored) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown analysis: ${parsed.id}`);
       }
 
-      try {
-        return await this.dispatchTool(name, args);
-      } finally {
-        if (keepalive) clearInterval(keepalive);
-        delete (globalThis as any).__psiProgress;
+      let body: unknown = stored.result.lighthouseResult ?? null;
+      if (parsed.resource === "audit") {
+        body = stored.result.lighthouseResult?.audits?.[parsed.auditId];
+        if (!body) {
+          throw new McpError(ErrorCode.InvalidParams, `Audit "${parsed.auditId}" not found in analysis ${parsed.id}`);
+        }
       }
+
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify(body, null, 2) }],
+      };
     });
   }
 
-  private async dispatchTool(name: string, args: any) {
-    switch (name) {
-        case "analyze_page_speed":
-          return await this.handleAnalyzePageSpeed(args);
-        case "get_performance_summary":
-          return await this.handlePerformanceSummary(args);
-        case "crux_summary":
-          return await this.handleCruxSummary(args);
-        case "compare_pages":
-          return await this.handleComparePages(args);
-        case "full_report":
-          return await this.handleFullReport(args);
-        case "batch_analyze":
-          return await this.handleBatchAnalyze(args);
-        case "clear_cache":
-          return await this.handleClearCache();
-        case "get_recommendations":
-          return await this.handleGetRecommendations(args);
-        case "get_visual_analysis":
-          return await this.handleGetVisualAnalysis(args);
-        case "get_element_analysis":
-          return await this.handleGetElementAnalysis(args);
-        case "get_network_analysis":
-          return await this.handleGetNetworkAnalysis(args);
-        case "get_javascript_analysis":
-          return await this.handleGetJavaScriptAnalysis(args);
-        case "get_image_optimization_details":
-          return await this.handleGetImageOptimizationDetails(args);
-        case "get_render_blocking_details":
-          return await this.handleGetRenderBlockingDetails(args);
-        case "get_third_party_impact":
-          return await this.handleGetThirdPartyImpact(args);
-        case "get_full_audit":
-          return await this.handleGetFullAudit(args);
-        case "get_performance_map":
-          return await this.handlePerformanceMap(args);
-        case "get_origin_crux":
-          return await this.handleGetOriginCrux(args);
-        case "compare_baseline":
-          return await this.handleCompareBaseline(args);
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+  private setupPrompts(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: PROMPTS.map(({ name, description, arguments: promptArgs }) => ({
+          name,
+          description,
+          arguments: promptArgs,
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const prompt = findPrompt(name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
       }
+
+      let text: string;
+      try {
+        text = prompt.render(args ?? {});
+      } catch (error) {
+        const errorMessage = error instanceof z.ZodError
+          ? describeZodError(error)
+          : error instanceof Error ? error.message : "Unknown error occurred";
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${errorMessage}`);
+      }
+
+      return {
+        description: prompt.description,
+        messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+      };
+    });
   }
 
-  private async handleAnalyzePageSpeed(args: any) {
+  private async handleAnalyzePageSpeed(input: AnalyzePageSpeedInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "analyze-page-speed");
     
     try {
-      const input = AnalyzePageSpeedSchema.parse(args);
       logger.info({ url: input.url, strategy: input.strategy }, "Starting PageSpeed analysis");
       
-      const result = await this.client.analyzePageSpeed(input, correlationId, (globalThis as any).__psiProgress as (() => void) | undefined);
+      const { result, analysisId, dataSource } = await this.analyze(input, correlationId, context);
       
       return {
         content: [
           {
             type: "text",
-            text: this.formatAnalysisReport(result, input),
+            text: this.formatAnalysisReport(result, input, analysisId, dataSource),
           },
+          this.analysisLink(analysisId),
         ],
+        structuredContent: this.createAnalysisOutput(result, input, analysisId, dataSource),
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "PageSpeed analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error analyzing page speed: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "PageSpeed analysis failed");
+      return failureResult("analyzing page speed", failure);
     }
   }
 
-  private async handlePerformanceSummary(args: any) {
+  private async handlePerformanceSummary(input: PerformanceSummaryInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "performance-summary");
     
     try {
-      const input = PerformanceSummarySchema.parse(args);
       logger.info({ url: input.url }, "Getting performance summary");
       
       const fullInput: AnalyzePageSpeedInput = {
@@ -587,8 +598,8 @@ export class PageSpeedInsightsServer {
         locale: "en",
       };
       
-      const result = await this.client.analyzePageSpeed(fullInput, correlationId);
-      const summary = this.createPerformanceSummary(result, input);
+      const { result, analysisId, dataSource } = await this.analyze(fullInput, correlationId, context);
+      const summary: PerformanceSummaryOutput = { ...this.createPerformanceSummary(result, input), dataSource, analysisId };
       
       return {
         content: [
@@ -596,29 +607,22 @@ export class PageSpeedInsightsServer {
             type: "text",
             text: JSON.stringify(summary, null, 2),
           },
+          this.analysisLink(analysisId),
         ],
+        structuredContent: summary,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Performance summary failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting performance summary: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Performance summary failed");
+      return failureResult("getting performance summary", failure);
     }
   }
 
-  private async handlePerformanceMap(args: any) {
+  private async handlePerformanceMap(input: PerformanceSummaryInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "performance-map");
 
     try {
-      const input = PerformanceSummarySchema.parse(args);
       logger.info({ url: input.url }, "Generating performance map");
 
       const fullInput: AnalyzePageSpeedInput = {
@@ -627,7 +631,7 @@ export class PageSpeedInsightsServer {
         locale: "en",
       };
 
-      const result = await this.client.analyzePageSpeed(fullInput, correlationId);
+      const { result, analysisId } = await this.analyze(fullInput, correlationId, context);
       const map = this.createPerformanceMap(result, input);
 
       return {
@@ -636,20 +640,14 @@ export class PageSpeedInsightsServer {
             type: "text",
             text: map,
           },
+          this.analysisLink(analysisId),
         ],
+        structuredContent: this.createPerformanceMapOutput(result, input, analysisId, map),
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Performance map failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error generating performance map: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Performance map failed");
+      return failureResult("generating performance map", failure);
     }
   }
 
@@ -660,13 +658,7 @@ export class PageSpeedInsightsServer {
     const score = performance?.score != null ? Math.round(performance.score * 100) : null;
     const scoreEmoji = score === null ? "❓" : score >= 90 ? "🟢" : score >= 50 ? "🟠" : "🔴";
 
-    const cwvConfigs = [
-      { id: "largest-contentful-paint", label: "LCP", good: 2500, mediocre: 4000, unit: "ms", display: audits["largest-contentful-paint"]?.displayValue },
-      { id: "cumulative-layout-shift", label: "CLS", good: 0.1, mediocre: 0.25, unit: "", display: audits["cumulative-layout-shift"]?.displayValue },
-      { id: "total-blocking-time", label: "TBT", good: 200, mediocre: 600, unit: "ms", display: audits["total-blocking-time"]?.displayValue },
-      { id: "first-contentful-paint", label: "FCP", good: 1800, mediocre: 3000, unit: "ms", display: audits["first-contentful-paint"]?.displayValue },
-      { id: "speed-index", label: "SI", good: 3400, mediocre: 5800, unit: "ms", display: audits["speed-index"]?.displayValue },
-    ];
+    const cwvConfigs = MAP_VITALS.map(v => ({ ...v, display: audits[v.id]?.displayValue }));
 
     const vitalNodes = cwvConfigs
       .filter(v => audits[v.id]?.numericValue != null)
@@ -729,85 +721,211 @@ export class PageSpeedInsightsServer {
     return map;
   }
 
-  private async handleCompareBaseline(args: any) {
+  private createPerformanceMapOutput(
+    data: PageSpeedInsightsResponse,
+    input: { url: string; strategy: string },
+    analysisId: string,
+    map: string
+  ): PerformanceMapOutput {
+    const lighthouse = data.lighthouseResult;
+    const performance = lighthouse?.categories?.performance;
+    const audits = lighthouse?.audits || {};
+    const mermaidStart = map.indexOf("```mermaid\n") + "```mermaid\n".length;
+
+    return {
+      analysisId,
+      url: input.url,
+      strategy: input.strategy,
+      score: performance?.score != null ? Math.round(performance.score * 100) : null,
+      vitals: MAP_VITALS
+        .filter(v => audits[v.id]?.numericValue != null)
+        .map(v => {
+          const num = audits[v.id]!.numericValue!;
+          return {
+            label: v.label,
+            numericValue: num,
+            displayValue: audits[v.id]?.displayValue,
+            status: num <= v.good ? "good" as const : num <= v.mediocre ? "needs-improvement" as const : "poor" as const,
+          };
+        }),
+      opportunities: this.opportunitiesOf(data, 5),
+      mermaid: map.slice(mermaidStart, map.lastIndexOf("```")),
+    };
+  }
+
+  private async handleCompareBaseline(input: CompareBaselineInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "compare-baseline");
+    const name = input.baseline_name;
+    const identity = `${input.url} (${input.strategy})`;
 
     try {
-      const input = z.object({
-        url: UrlSchema,
-        strategy: z.enum(["mobile", "desktop"]).default("mobile"),
-        runs: z.number().int().min(2).max(5).default(3),
-        save_baseline: z.boolean().default(false),
-      }).parse(args);
-
-      const result = await this.client.analyzePageSpeed(
-        { url: input.url, strategy: input.strategy, category: ["performance"], locale: "en", runs: input.runs },
+      const existing = getBaseline(input.url, input.strategy, name);
+
+      if (input.compare_to) {
+        // Two saved snapshots: nothing to measure
+        const other = getBaseline(input.url, input.strategy, input.compare_to);
+        if (!existing || !other) {
+          const missing = [!existing && name, !other && input.compare_to].filter(Boolean);
+          throw new BaselineNotFoundError(`No saved baseline ${missing.map((n) => `"${n}"`).join(" or ")} for ${identity}`);
+        }
+        const verdicts = compareBaselines(existing, other);
+        const lighthouseVersionChanged = Boolean(
+          existing.lighthouseVersion && other.lighthouseVersion && existing.lighthouseVersion !== other.lighthouseVersion
+        );
+        const structured: CompareBaselineOutput = {
+          url: input.url,
+          strategy: input.strategy,
+          baselineName: name,
+          comparedTo: input.compare_to,
+          mode: "saved",
+          baselineRecorded: existing.recorded,
+          lighthouseVersionChanged,
+          verdicts,
+        };
+        let text = `# Baseline comparison: ${name} → ${input.compare_to}\n\n**URL:** ${identity}\n**${name}:** ${existing.recorded} | **${input.compare_to}:** ${other.recorded}\n`;
+        text += this.formatVerdicts(verdicts, lighthouseVersionChanged ? [existing.lighthouseVersion, other.lighthouseVersion] : null);
+        logger.info({ url: input.url, name, compareTo: input.compare_to }, "compare_baseline done");
+        return { content: [{ type: "text", text }], structuredContent: structured };
+      }
+
+      const { result, analysisId } = await this.analyze(
+        {
+          url: input.url,
+          strategy: input.strategy,
+          category: ["performance"],
+          locale: "en",
+          runs: input.runs,
+          exclude_outliers: input.exclude_outliers,
+        },
         correlationId,
-        (globalThis as any).__psiProgress as (() => void) | undefined
+        context
       );
-      const mr = (result as any).multirun as
-        | { stats: any; scores: Record<string, any>; metrics: Record<string, any> }
-        | undefined;
+      const mr = result.multirun;
       if (!mr) {
-        return {
-          content: [{ type: "text", text: "Error: no multirun data — compare_baseline requires runs >= 2." }],
-          isError: true,
-        };
+        // runs >= 2 always yields a summary; reaching this is a bug, not bad input
+        throw new Error("No multirun data — compare_baseline requires runs >= 2");
       }
 
       const lhVersion = result.lighthouseResult?.lighthouseVersion;
-      const existing = getBaseline(input.url, input.strategy);
       let text: string;
+      let structured: CompareBaselineOutput;
 
       if (!existing || input.save_baseline) {
-        const snap = saveBaseline(input.url, input.strategy, mr, lhVersion);
-        text = `# Baseline recorded\n\n**URL:** ${input.url} (${input.strategy})\n**Analyses:** ${mr.stats.analyses}/${mr.stats.requested} distinct, ${mr.stats.cachedReplays} replay(s) dropped\n**Recorded:** ${snap.recorded}\n\nNo comparison: nothing to compare against yet. Make your change, then call compare_baseline again.`;
+        const snap = saveBaseline(input.url, input.strategy, mr, lhVersion, name);
+        structured = {
+          analysisId,
+          url: input.url,
+          strategy: input.strategy,
+          baselineName: name,
+          mode: "recorded",
+          stats: mr.stats,
+          baselineRecorded: snap.recorded,
+          lighthouseVersionChanged: false,
+          verdicts: [],
+        };
+        text = `# Baseline recorded: ${name}\n\n**URL:** ${identity}\n**Analyses:** ${mr.stats.analyses}/${mr.stats.requested} distinct, ${mr.stats.cachedReplays} replay(s) dropped\n**Recorded:** ${snap.recorded}\n\nNo comparison: nothing to compare against yet. Make your change, then call compare_baseline again.`;
       } else {
         const verdicts = compareBaselines(existing, {
           recorded: new Date().toISOString(),
           lighthouseVersion: lhVersion,
-          scores: mr.scores,
-          metrics: mr.metrics,
+          scores: mr.scores as Record<string, MetricSpread>,
+          metrics: mr.metrics as Record<string, MetricSpread>,
         });
-        text = `# Baseline comparison\n\n**URL:** ${input.url} (${input.strategy})\n**Baseline:** ${existing.recorded} | **Now:** ${new Date().toISOString()}\n`;
-        if (existing.lighthouseVersion && lhVersion && existing.lighthouseVersion !== lhVersion) {
-          text += `\n⚠️ Lighthouse version changed (${existing.lighthouseVersion} → ${lhVersion}); scores move with it even when the page does not.\n`;
-        }
-        const anyVerdict = verdicts.filter((v) => v.verdict !== "no-verdict");
-        if (anyVerdict.length === 0) {
-          text += `\n**No verdict available:** all ranges overlap — the difference is inside the instrument's own wobble.\n`;
-        }
-        text += `\n| Metric | Before | After | Verdict | Guaranteed |\n|---|---|---|---|---|\n`;
-        for (const v of verdicts.slice(0, 20)) {
-          const fmt = (s: any) => `${Math.round(s.median)} [${Math.round(s.min)}–${Math.round(s.max)}]`;
-          text += `| ${v.metric} | ${fmt(v.before)} | ${fmt(v.after)} | ${v.verdict} | ${Math.round(v.guaranteedDelta)} |\n`;
+        const lighthouseVersionChanged = Boolean(
+          existing.lighthouseVersion && lhVersion && existing.lighthouseVersion !== lhVersion
+        );
+        structured = {
+          analysisId,
+          url: input.url,
+          strategy: input.strategy,
+          baselineName: name,
+          mode: "compared",
+          stats: mr.stats,
+          baselineRecorded: existing.recorded,
+          lighthouseVersionChanged,
+          verdicts,
+        };
+        text = `# Baseline comparison: ${name}\n\n**URL:** ${identity}\n**Baseline:** ${existing.recorded} | **Now:** ${new Date().toISOString()}\n`;
+        text += this.formatVerdicts(verdicts, lighthouseVersionChanged ? [existing.lighthouseVersion, lhVersion] : null);
+      }
+
+      logger.info({ url: input.url, name }, "compare_baseline done");
+      return { content: [{ type: "text", text }, this.analysisLink(analysisId)], structuredContent: structured };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "compare_baseline failed");
+      return failureResult("comparing baseline", failure);
+    }
+  }
+
+  private formatVerdicts(verdicts: RangeVerdict[], versions: [string | undefined, string | undefined] | null): string {
+    let text = "";
+    if (versions) {
+      text += `\n⚠️ Lighthouse version changed (${versions[0]} → ${versions[1]}); scores move with it even when the page does not.\n`;
+    }
+    const anyVerdict = verdicts.filter((v) => v.verdict !== "no-verdict");
+    if (anyVerdict.length === 0) {
+      text += `\n**No verdict available:** all ranges overlap — the difference is inside the instrument's own wobble.\n`;
+    }
+    text += `\n| Metric | Before | After | Verdict | Guaranteed |\n|---|---|---|---|---|\n`;
+    for (const v of verdicts.slice(0, 20)) {
+      const fmt = (s: MetricSpread) => `${Math.round(s.median)} [${Math.round(s.min)}–${Math.round(s.max)}]`;
+      text += `| ${v.metric} | ${fmt(v.before)} | ${fmt(v.after)} | ${v.verdict} | ${Math.round(v.guaranteedDelta)} |\n`;
+    }
+    text += `\n> Savings and ranges do not add up; use the order, not the sum. Quote guaranteed, not median.\n`;
+    return text;
+  }
+
+  private async handleListBaselines(input: ListBaselinesInput) {
+    try {
+      const baselines = listBaselines(input.url);
+      const structured: ListBaselinesOutput = { baselines };
+      let text = `# Saved Baselines${input.url ? ` for ${input.url}` : ""}\n\n`;
+      if (baselines.length === 0) {
+        text += "No baselines saved yet. compare_baseline records one on its first call for a URL.";
+      } else {
+        text += `| URL | Strategy | Name | Recorded | Performance | Lighthouse |\n|---|---|---|---|---|---|\n`;
+        for (const b of baselines) {
+          const perf = b.performance ? `${Math.round(b.performance.median)} [${Math.round(b.performance.min)}–${Math.round(b.performance.max)}]` : "–";
+          text += `| ${b.url} | ${b.strategy} | ${b.name} | ${b.recorded} | ${perf} | ${b.lighthouseVersion ?? "–"} |\n`;
         }
-        text += `\n> Savings and ranges do not add up; use the order, not the sum. Quote guaranteed, not median.\n`;
       }
+      return { content: [{ type: "text", text }], structuredContent: structured };
+    } catch (error) {
+      const failure = describeFailure(error);
+      this.logger.error({ error: failure.message, kind: failure.kind }, "Failed to list baselines");
+      return failureResult("listing baselines", failure);
+    }
+  }
 
-      logger.info({ url: input.url }, "compare_baseline done");
-      return { content: [{ type: "text", text }] };
+  private async handleDeleteBaseline(input: DeleteBaselineInput) {
+    try {
+      const deleted = clearBaseline(input.url, input.strategy, input.baseline_name);
+      const structured: DeleteBaselineOutput = { deleted, remaining: listBaselines(input.url).length };
+      this.logger.info({ url: input.url, strategy: input.strategy, name: input.baseline_name, deleted }, "Baseline deleted");
+      const identity = `"${input.baseline_name}" for ${input.url} (${input.strategy})`;
+      const text = deleted
+        ? `✅ Deleted baseline ${identity}. ${structured.remaining} baseline(s) remain for this URL.`
+        : `No baseline ${identity} to delete. Use list_baselines to see what is saved.`;
+      return { content: [{ type: "text", text }], structuredContent: structured };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "compare_baseline failed");
-      return {
-        content: [{ type: "text", text: `Error comparing baseline: ${errorMessage}` }],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      this.logger.error({ error: failure.message, kind: failure.kind }, "Failed to delete baseline");
+      return failureResult("deleting baseline", failure);
     }
   }
 
-  private async handleGetOriginCrux(args: any) {
+  private async handleGetOriginCrux(input: OriginCruxInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "origin-crux");
 
     try {
-      const input = OriginCruxSchema.parse(args);
       logger.info({ origin: input.origin }, "Fetching origin CrUX data");
 
-      const cruxData = await this.client.getOriginCruxData(input, correlationId);
+      const cruxData = await this.client.getOriginCruxData(input, correlationId, { signal: context.signal });
       const summary = this.formatOriginCruxSummary(cruxData, input.origin);
+      const { url: _url, ...field } = this.createCruxOutput(cruxData, input.origin);
       return {
         content: [
           {
@@ -815,19 +933,49 @@ export class PageSpeedInsightsServer {
             text: summary,
           },
         ],
+        structuredContent: { origin: input.origin, ...field } satisfies OriginCruxOutput,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Origin CrUX request failed");
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Origin CrUX request failed");
+      return failureResult("getting origin CrUX data", failure);
+    }
+  }
+
+  private async handleCruxHistory(input: CruxHistoryInput, context: ToolContext) {
+    const correlationId = randomUUID();
+    const logger = createRequestLogger(correlationId, "crux-history");
+    const target = input.origin
+      ? { kind: "origin" as const, value: input.origin }
+      : { kind: "url" as const, value: input.url! };
+
+    try {
+      logger.info({ [target.kind]: target.value, periods: input.periods }, "Getting CrUX history");
+
+      const history = await this.client.getCruxHistory(input, correlationId, { signal: context.signal });
+      const series = parseCruxHistory(history);
+
       return {
         content: [
           {
             type: "text",
-            text: `Error getting origin CrUX data: ${errorMessage}`,
+            text: formatCruxHistoryReport(series, target, input.chart),
           },
         ],
-        isError: true,
+        structuredContent: {
+          target: target.value,
+          targetType: target.kind,
+          hasData: Boolean(series && series.metrics.length > 0),
+          formFactor: series?.formFactor ?? null,
+          periods: series?.periods ?? [],
+          metrics: series?.metrics ?? [],
+          crossings: series ? findThresholdCrossings(series) : [],
+        } satisfies CruxHistoryOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "CrUX history request failed");
+      return failureResult("getting CrUX history", failure);
     }
   }
 
@@ -836,39 +984,17 @@ export class PageSpeedInsightsServer {
       return `# CrUX Origin Field Data\n\n**Origin:** ${origin}\n**Status:** No field data available (insufficient traffic)\n\nThis origin doesn't have enough real-world usage data in Chrome UX Report.`;
     }
 
-    const { record } = cruxData;
-    let summary = `# CrUX Origin Field Data\n\n`;
-    summary += `**Origin:** ${origin}\n`;
-    summary += `**Form Factor:** ${record.key.formFactor}\n\n`;
-
-    const cwvMetrics = {
-      "largest_contentful_paint": "Largest Contentful Paint",
-      "interaction_to_next_paint": "Interaction to Next Paint",
-      "cumulative_layout_shift": "Cumulative Layout Shift",
-      "experimental_time_to_first_byte": "Time to First Byte",
-      "first_contentful_paint": "First Contentful Paint",
-    };
-
-    summary += `## Core Web Vitals (Real User Data)\n`;
-    Object.entries(cwvMetrics).forEach(([key, title]) => {
-      const metric = record.metrics?.[key];
-      if (metric) {
-        summary += `- **${title}**: ${metric.percentiles.p75}${key === "cumulative_layout_shift" ? "" : "ms"} (p75)\n`;
-      }
-    });
-
-    return summary;
+    return formatCruxRecord(cruxData, "CrUX Origin Field Data", { label: "Origin", value: origin });
   }
 
-  private async handleCruxSummary(args: any) {
+  private async handleCruxSummary(input: CruxSummaryInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "crux-summary");
     
     try {
-      const input = CruxSummarySchema.parse(args);
       logger.info({ url: input.url }, "Getting CrUX summary");
       
-      const cruxData = await this.client.getCruxData(input, correlationId);
+      const cruxData = await this.client.getCruxData(input, correlationId, { signal: context.signal });
       const summary = this.formatCruxSummary(cruxData, input.url);
       
       return {
@@ -878,46 +1004,39 @@ export class PageSpeedInsightsServer {
             text: summary,
           },
         ],
+        structuredContent: this.createCruxOutput(cruxData, input.url),
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "CrUX summary failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting CrUX data: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "CrUX summary failed");
+      return failureResult("getting CrUX data", failure);
     }
   }
 
-  private async handleComparePages(args: any) {
+  private async handleComparePages(input: CompareUrlsInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "compare-pages");
     
     try {
-      const input = CompareUrlsSchema.parse(args);
       logger.info({ urlA: input.urlA, urlB: input.urlB }, "Comparing pages");
+      context.progress?.setTotal(2);
       
-      const [resultA, resultB] = await Promise.all([
-        this.client.analyzePageSpeed({
-          url: input.urlA,
+      const [a, b] = await Promise.all([input.urlA, input.urlB].map(async (url) => {
+        const analysis = await this.analyze({
+          url,
           strategy: input.strategy,
           category: input.categories,
           locale: "en",
-        }, correlationId),
-        this.client.analyzePageSpeed({
-          url: input.urlB, 
-          strategy: input.strategy,
-          category: input.categories,
-          locale: "en",
-        }, correlationId),
-      ]);
-      
-      const comparison = this.createComparison(resultA, resultB, input);
+          freshness: input.freshness,
+        }, correlationId, { signal: context.signal });
+        context.progress?.advance(`Analyzed ${url}`);
+        return analysis;
+      }));
+      
+      const comparison: ComparisonOutput = {
+        ...this.createComparison(a.result, b.result, input),
+        analysisIds: { urlA: a.analysisId, urlB: b.analysisId },
+      };
       
       return {
         content: [
@@ -925,41 +1044,42 @@ export class PageSpeedInsightsServer {
             type: "text",
             text: JSON.stringify(comparison, null, 2),
           },
+          this.analysisLink(a.analysisId),
+          this.analysisLink(b.analysisId),
         ],
+        structuredContent: comparison,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Page comparison failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error comparing pages: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Page comparison failed");
+      return failureResult("comparing pages", failure);
     }
   }
 
-  private async handleFullReport(args: any) {
+  private async handleFullReport(input: AnalyzePageSpeedInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "full-report");
     
     try {
-      const input = AnalyzePageSpeedSchema.parse(args);
       logger.info({ url: input.url }, "Generating full Lab+Field report");
       
       const [psiData, cruxData] = await Promise.allSettled([
-        this.client.analyzePageSpeed(input, correlationId),
-        this.client.getCruxData({ url: input.url }, correlationId),
+        this.analyze(input, correlationId, context),
+        this.client.getCruxData({ url: input.url }, correlationId, { signal: context.signal }),
       ]);
+      throwIfCancelled(context.signal);
+      const analysis = psiData.status === "fulfilled" ? psiData.value : null;
+      const crux = cruxData.status === "fulfilled" ? cruxData.value : null;
       
-      const report = this.createFullReport(
-        psiData.status === "fulfilled" ? psiData.value : null,
-        cruxData.status === "fulfilled" ? cruxData.value : null,
-        input
-      );
+      const labVsField = analysis && crux ? compareLabField(analysis.result, crux, input.strategy) : null;
+      const report = this.createFullReport(analysis?.result ?? null, crux, input, analysis?.analysisId, labVsField, analysis?.dataSource);
+      const structured: FullReportOutput = {
+        url: input.url,
+        strategy: input.strategy,
+        lab: analysis ? this.createAnalysisOutput(analysis.result, input, analysis.analysisId, analysis.dataSource) : null,
+        field: crux ? this.createCruxOutput(crux, input.url) : null,
+        labVsField,
+      };
       
       return {
         content: [
@@ -967,125 +1087,154 @@ export class PageSpeedInsightsServer {
             type: "text",
             text: report,
           },
+          ...(analysis ? [this.analysisLink(analysis.analysisId)] : []),
         ],
+        structuredContent: structured,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Full report generation failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error generating full report: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Full report generation failed");
+      return failureResult("generating full report", failure);
     }
   }
 
-  private async handleBatchAnalyze(args: any) {
+  private async handleBatchAnalyze(input: BatchAnalyzeInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "batch-analyze");
     
     try {
-      const input = BatchAnalyzeSchema.parse(args);
       logger.info({ urlCount: input.urls.length }, "Starting batch analysis");
+      context.progress?.setTotal(input.urls.length);
       
-      const results: Array<{ url: string; result?: any; error?: string }> = [];
+      const results: BatchOutput["results"] = [];
       
       for (let i = 0; i < input.urls.length; i++) {
         const url = input.urls[i];
+        throwIfCancelled(context.signal);
         try {
           logger.info({ url, progress: `${i + 1}/${input.urls.length}` }, "Analyzing URL");
           
-          const result = await this.client.analyzePageSpeed({
+          const { result, analysisId } = await this.analyze({
             url,
             strategy: input.strategy,
             category: input.category,
             locale: input.locale,
-          }, correlationId);
+            freshness: input.freshness,
+          }, correlationId, { signal: context.signal });
           
-          results.push({ url, result: this.createPerformanceSummary(result, { url, strategy: input.strategy }) });
+          results.push({ url, analysisId, result: this.createPerformanceSummary(result, { url, strategy: input.strategy }) });
+          context.progress?.advance(`URL ${i + 1}/${input.urls.length} analyzed: ${url}`);
         } catch (error) {
-          const urlErrorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-          logger.warn({ url, error: urlErrorMessage }, "URL analysis failed");
-          results.push({ url, error: urlErrorMessage });
+          // Cancelling the batch is not a failure of this one URL
+          if (isCancelled(error)) throw error;
+          const failure = describeFailure(error);
+          logger.warn({ url, error: failure.message, kind: failure.kind }, "URL analysis failed");
+          results.push({ url, error: failure.message, failure });
+          context.progress?.advance(`URL ${i + 1}/${input.urls.length} failed: ${url}`);
         }
       }
       
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              summary: {
-                total: input.urls.length,
-                successful: results.filter(r => r.result).length,
-                failed: results.filter(r => r.error).length,
-              },
-              results,
-            }, null, 2),
-          },
-        ],
+      const batch: BatchOutput = {
+        summary: {
+          total: input.urls.length,
+          successful: results.filter(r => r.result).length,
+          failed: results.filter(r => r.error).length,
+        },
+        results,
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Batch analysis failed");
+      
       return {
         content: [
           {
             type: "text",
-            text: `Error in batch analysis: ${errorMessage}`,
+            text: JSON.stringify(batch, null, 2),
           },
         ],
-        isError: true,
+        structuredContent: batch,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Batch analysis failed");
+      return failureResult("in batch analysis", failure);
     }
   }
 
-  private async handleClearCache(): Promise<any> {
+  private async handleClearCache(input: ClearCacheInput = {}) {
     const logger = this.logger;
     
     try {
-      const sizeBefore = cache.size();
-      cache.clear();
+      const filter = { urlPattern: input.url_pattern, strategy: input.strategy, type: input.cache_type };
+      const filtered = Object.values(filter).some((value) => value !== undefined);
+      let clearedEntries: number;
+      if (filtered) {
+        clearedEntries = cache.remove(filter);
+      } else {
+        clearedEntries = cache.size();
+        cache.clear();
+      }
+      const remainingEntries = cache.size();
       
-      logger.info({ clearedEntries: sizeBefore }, "Cache cleared successfully");
+      logger.info({ clearedEntries, remainingEntries, filter }, "Cache cleared successfully");
       
+      const criteria = [
+        input.url_pattern && `URL ${input.url_pattern}`,
+        input.strategy && `strategy ${input.strategy}`,
+        input.cache_type && `type ${input.cache_type}`,
+      ].filter(Boolean);
       return {
         content: [
           {
             type: "text",
-            text: `✅ Cache cleared successfully. Removed ${sizeBefore} cached entries.`,
+            text: filtered
+              ? `✅ Removed ${clearedEntries} cached entries matching ${criteria.join(", ")}. ${remainingEntries} entries remain.`
+              : `✅ Cache cleared successfully. Removed ${clearedEntries} cached entries.`,
           },
         ],
+        structuredContent: { clearedEntries, remainingEntries },
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Failed to clear cache");
-      
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Failed to clear cache");
+      return failureResult("clearing cache", failure);
+    }
+  }
+
+  private async handleCacheStats() {
+    try {
+      const stats = cache.stats();
+      const now = Date.now();
+      const lookups = stats.hits + stats.misses;
+      const structured: CacheStatsOutput = {
+        ...stats,
+        hitRate: lookups === 0 ? null : stats.hits / lookups,
+        items: cache.entries().map((entry) => ({
+          key: entry.key,
+          ...describeCacheKey(entry.key),
+          ageSeconds: Math.round((now - entry.storedAt) / 1000),
+          sizeBytes: entry.size,
+          expiresAt: new Date(entry.expiresAt).toISOString(),
+        })),
+      };
+
       return {
-        content: [
-          {
-            type: "text",
-            text: `❌ Error clearing cache: ${errorMessage}`,
-          },
-        ],
-        isError: true,
+        content: [{ type: "text", text: this.formatCacheStats(structured, now) }],
+        structuredContent: structured,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      this.logger.error({ error: failure.message, kind: failure.kind }, "Failed to read cache statistics");
+      return failureResult("reading cache statistics", failure);
     }
   }
 
-  private async handleGetRecommendations(args: any) {
+  private async handleGetRecommendations(input: RecommendationsInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-recommendations");
     
     try {
-      const input = AnalyzePageSpeedSchema.parse(args);
       logger.info({ url: input.url, strategy: input.strategy }, "Generating performance recommendations");
       
-      const result = await this.client.analyzePageSpeed(input, correlationId);
+      const { result, analysisId } = await this.analyze(input, correlationId, context);
       const recommendations = this.recommendationsEngine.generateRecommendations(result);
       const formattedReport = this.recommendationsEngine.formatRecommendations(recommendations);
       
@@ -1094,25 +1243,24 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: formattedReport,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Recommendations generation failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error generating recommendations: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: { ...recommendations, analysisId } satisfies RecommendationsOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Recommendations generation failed");
+      return failureResult("generating recommendations", failure);
     }
   }
 
-  private formatAnalysisReport(data: PageSpeedInsightsResponse, input: AnalyzePageSpeedInput): string {
+  private formatAnalysisReport(
+    data: PageSpeedInsightsResponse,
+    input: AnalyzePageSpeedInput,
+    analysisId?: string,
+    dataSource: DataSource[] = []
+  ): string {
     const lighthouse = data.lighthouseResult;
     if (!lighthouse) {
       return "No Lighthouse data available in response";
@@ -1124,17 +1272,34 @@ export class PageSpeedInsightsServer {
     let report = `# PageSpeed Insights Analysis\n\n`;
     report += `**URL:** ${input.url}\n`;
     report += `**Strategy:** ${input.strategy}\n`;
-    report += `**Analysis Time:** ${data.analysisUTCTimestamp}\n\n`;
+    report += `**Analysis Time:** ${data.analysisUTCTimestamp}\n`;
+    for (const source of dataSource) {
+      const label = dataSource.length > 1 ? ` (${source.strategy})` : "";
+      report += `**Data Source${label}:** ${this.describeDataSource(source)}\n`;
+    }
+    if (analysisId) {
+      report += `**Analysis ID:** \`${analysisId}\`\n`;
+    }
+    report += `\n`;
 
-    const mr = (data as any).multirun;
+    const mr = data.multirun;
+    const gaps = this.strategyGapOf(data);
     if (mr) {
-      report += `## Measurement Confidence (${mr.stats.analyses}/${mr.stats.requested} distinct analyses)\n\n`;
+      report += `## Measurement Confidence${gaps ? " — Mobile" : ""} (${mr.stats.analyses}/${mr.stats.requested} distinct analyses)\n\n`;
       report += `> Median of ${mr.stats.analyses} genuinely distinct analyses${mr.stats.cachedReplays > 0 ? `, ${mr.stats.cachedReplays} cached replay(s) dropped` : ""}. A single Lighthouse run is noise — treat differences inside the spreads below as no change.\n\n`;
+      if (mr.adaptive) {
+        const { adaptive } = mr;
+        const width = adaptive.ciWidth === null ? "no performance score" : `CI ${Math.round(adaptive.ciWidth * 10) / 10} points wide`;
+        report += adaptive.stoppedBecause === "precise"
+          ? `> Adaptive sampling stopped after ${mr.stats.requested} runs: ${width}, within the target of ${adaptive.targetPrecision}.\n\n`
+          : `> Adaptive sampling reached the cap of ${adaptive.maxRuns} runs before the target of ${adaptive.targetPrecision} points (${width}${adaptive.tbtNoisy ? "; TBT still swinging widely" : ""}). Treat the figures as approximate.\n\n`;
+      }
       const perf = mr.scores["performance"];
       if (perf) {
-        report += `- **Performance Score**: ${Math.round(perf.median)}/100 (min ${Math.round(perf.min)}, max ${Math.round(perf.max)})\n`;
+        report += `- **Performance Score**: ${Math.round(perf.median)}/100 (min ${Math.round(perf.min)}, max ${Math.round(perf.max)}; 95% CI ${Math.round(perf.ci.low)}–${Math.round(perf.ci.high)})\n\n`;
       }
-      report += `\n`;
+      report += this.spreadTable(mr);
+      report += this.runsTable(mr);
     }
 
     if (data.loadingExperience?.metrics) {
@@ -1153,12 +1318,15 @@ export class PageSpeedInsightsServer {
     }
 
     const desktop = data.desktopResult;
-    if (desktop?.lighthouseResult) {
+    if (gaps && desktop?.multirun) {
+      report += this.strategyGapSection(gaps, desktop.multirun);
+    } else if (desktop?.lighthouseResult) {
       const dPerf = desktop.lighthouseResult.categories?.performance;
-      const dMr = (desktop as any).multirun;
+      const dMr = desktop.multirun;
       report += `## Desktop\n\n`;
       if (dMr?.stats) {
         report += `> ${dMr.stats.analyses}/${dMr.stats.requested} distinct analyses; median performance ${Math.round(dMr.scores["performance"]?.median ?? (dPerf ? dPerf.score * 100 : 0))}/100 (min ${Math.round(dMr.scores["performance"]?.min ?? 0)}, max ${Math.round(dMr.scores["performance"]?.max ?? 0)})\n\n`;
+        report += this.spreadTable(dMr);
       } else if (dPerf) {
         report += `**Performance Score:** ${Math.round(dPerf.score * 100)}/100\n\n`;
       }
@@ -1201,6 +1369,150 @@ export class PageSpeedInsightsServer {
     return report;
   }
 
+  // Spread of the performance score and the map's lab metrics across a multirun.
+  private spreadTable(mr: MultirunSummary): string {
+    const rows: Array<[string, MetricSpread | null | undefined]> = [
+      ["Performance", mr.scores["performance"]],
+      ...MAP_VITALS.map((v) => [v.label, mr.metrics[v.id]] as [string, MetricSpread | null | undefined]),
+    ];
+    // CLS lives below 1; everything else is a score or milliseconds
+    const fmt = (n: number) => (Math.abs(n) < 1 && n !== 0 ? n.toFixed(3) : String(Math.round(n)));
+    let table = `| Metric | Median | 95% CI | IQR | MAD | CV | Min–Max | Outliers |\n|---|---|---|---|---|---|---|---|\n`;
+    let any = false;
+    for (const [label, s] of rows) {
+      if (!s) continue;
+      any = true;
+      const cv = s.cv === null ? "–" : `${Math.round(s.cv * 100)}%`;
+      const outliers = s.outliers.length > 0 ? s.outliers.map(fmt).join(", ") : "–";
+      table += `| ${label} | ${fmt(s.median)} | ${fmt(s.ci.low)}–${fmt(s.ci.high)} | ${fmt(s.iqr)} | ${fmt(s.mad)} | ${cv} | ${fmt(s.min)}–${fmt(s.max)} | ${outliers} |\n`;
+    }
+    if (!any) return "";
+    const flagged = rows.some(([, s]) => s && s.outliers.length > 0);
+    table += `\n`;
+    if (mr.stats.outliersExcluded) {
+      table += `> Outliers (outside 1.5 × IQR of the quartiles) are left out of every figure but the last column.\n\n`;
+    } else if (flagged) {
+      table += `> Outliers lie outside 1.5 × IQR of the quartiles and are still counted; pass exclude_outliers to leave them out.\n\n`;
+    }
+    return table;
+  }
+
+  // Only a multirun of both strategies has ranges to compare.
+  private strategyGapOf(data: PageSpeedInsightsResponse): StrategyGap[] | undefined {
+    const mobile = data.multirun;
+    const desktop = data.desktopResult?.multirun;
+    return mobile && desktop ? strategyGaps(mobile, desktop) : undefined;
+  }
+
+  private strategyGapSection(gaps: StrategyGap[], desktop: MultirunSummary): string {
+    const labels = new Map<string, string>([["performance", "Performance"], ...MAP_VITALS.map((v) => [v.id, v.label] as [string, string])]);
+    const fmt = (n: number) => (Math.abs(n) < 1 && n !== 0 ? n.toFixed(3) : String(Math.round(n)));
+    const range = (s: MetricSpread) => `${fmt(s.median)} [${fmt(s.min)}–${fmt(s.max)}]`;
+    const signed = (n: number) => `${n > 0 ? "+" : ""}${fmt(n)}`;
+
+    let section = `## Mobile vs Desktop (${desktop.stats.analyses}/${desktop.stats.requested} distinct desktop analyses)\n\n`;
+    section += `> Runs of both form factors shared each re-analysis window. A gap is only called where the two ranges do not overlap; quote the guaranteed figure.\n\n`;
+    section += `| Metric | Mobile | Desktop | Gap (desktop − mobile) | Guaranteed | Verdict |\n|---|---|---|---|---|---|\n`;
+    for (const gap of gaps) {
+      const verdict = gap.verdict === "within-noise" ? "within noise" : gap.verdict === "desktop-better" ? "desktop better" : "mobile better";
+      section += `| ${labels.get(gap.metric) ?? gap.metric} | ${range(gap.mobile)} | ${range(gap.desktop)} | ${signed(gap.medianGap)} | ${fmt(gap.guaranteedGap)} | ${verdict} |\n`;
+    }
+    const mobileOnly = gaps.filter((g) => g.verdict === "desktop-better").map((g) => labels.get(g.metric) ?? g.metric);
+    if (mobileOnly.length > 0) {
+      section += `\n**Mobile-specific problems:** ${mobileOnly.join(", ")}: desktop is clearly better, so look at what costs more on a slow CPU and network (JavaScript execution, image sizes, render-blocking requests).\n`;
+    }
+    section += `\n### Desktop spread\n\n`;
+    section += this.spreadTable(desktop);
+    section += this.runsTable(desktop);
+    return section;
+  }
+
+  // One row per distinct analysis, so an outlier run can be spotted and discounted.
+  private runsTable(mr: MultirunSummary): string {
+    if (!mr.runs || mr.runs.length < 2) return "";
+    const columns = MAP_VITALS.filter((v) => mr.runs.some((r) => r.metrics[v.id] !== undefined));
+    const fmt = (n: number | null | undefined) =>
+      n === null || n === undefined ? "–" : Math.abs(n) < 1 && n !== 0 ? n.toFixed(3) : String(Math.round(n));
+    let table = `### Runs\n\n| Run | Fetched | Performance | ${columns.map((v) => v.label).join(" | ")} | Failing audits | Outlier in |\n`;
+    table += `|---|---|---|${columns.map(() => "---|").join("")}---|---|\n`;
+    mr.runs.forEach((run, i) => {
+      const metrics = columns.map((v) => fmt(run.metrics[v.id])).join(" | ");
+      const outlierIn = run.outlierIn.length > 0 ? `⚠️ ${run.outlierIn.join(", ")}` : "–";
+      table += `| ${i + 1} | ${run.fetchTime ?? "–"} | ${fmt(run.scores["performance"])} | ${metrics} | ${run.failingAudits.length} | ${outlierIn} |\n`;
+    });
+    return `${table}\n`;
+  }
+
+  private opportunitiesOf(data: PageSpeedInsightsResponse, limit: number) {
+    const audits = data.lighthouseResult?.audits || {};
+    return (data.lighthouseResult?.categories?.performance?.auditRefs || [])
+      .filter(ref => audits[ref.id]?.details?.type === "opportunity")
+      .slice(0, limit)
+      .map(ref => ({ id: ref.id, title: audits[ref.id].title, displayValue: audits[ref.id].displayValue }));
+  }
+
+  private labResultOf(data: PageSpeedInsightsResponse) {
+    const lighthouse = data.lighthouseResult;
+    const audits = lighthouse?.audits || {};
+    const metrics: AnalysisOutput["metrics"] = {};
+    for (const id of KEY_LAB_METRICS) {
+      const audit = audits[id];
+      if (audit) {
+        metrics[id] = { numericValue: audit.numericValue, displayValue: audit.displayValue, score: audit.score ?? null };
+      }
+    }
+    return {
+      analysisTime: data.analysisUTCTimestamp,
+      lighthouseVersion: lighthouse?.lighthouseVersion,
+      scores: Object.fromEntries(
+        Object.entries(lighthouse?.categories || {}).map(([id, c]) => [id, c.score != null ? Math.round(c.score * 100) : null])
+      ),
+      metrics,
+      opportunities: this.opportunitiesOf(data, 5),
+      multirun: data.multirun,
+    };
+  }
+
+  private describeDataSource(source: DataSource): string {
+    const age =
+      source.ageSeconds === null
+        ? "of unknown age"
+        : source.ageSeconds < 60
+          ? "under a minute old"
+          : source.ageSeconds < 3600
+            ? `${Math.round(source.ageSeconds / 60)} min old`
+            : `${(source.ageSeconds / 3600).toFixed(1)} h old`;
+    if (!source.servedFromCache) {
+      return `new analysis (Lighthouse run ${age})`;
+    }
+    return source.revalidating
+      ? `⚠️ served from cache, Lighthouse run ${age}; refreshing in the background for the next call`
+      : `⚠️ served from cache, Lighthouse run ${age}; use freshness "force-refresh" for a new analysis`;
+  }
+
+  private createAnalysisOutput(
+    data: PageSpeedInsightsResponse,
+    input: { url: string; strategy: string },
+    analysisId: string,
+    dataSource?: DataSource[]
+  ): AnalysisOutput {
+    const fieldMetrics = data.loadingExperience?.metrics;
+    return {
+      analysisId,
+      url: input.url,
+      strategy: input.strategy,
+      ...this.labResultOf(data),
+      fieldData: fieldMetrics
+        ? Object.fromEntries(
+            Object.entries(fieldMetrics).map(([k, v]) => [k, { category: v?.category, p75: typeof v?.percentile === "number" ? v.percentile : v?.percentile?.p75 }])
+          )
+        : undefined,
+      desktop: data.desktopResult ? this.labResultOf(data.desktopResult) : undefined,
+      strategyGap: this.strategyGapOf(data),
+      dataSource,
+    };
+  }
+
   private createPerformanceSummary(data: PageSpeedInsightsResponse, input: { url: string; strategy: string }) {
     const lighthouse = data.lighthouseResult;
     const performance = lighthouse?.categories?.performance;
@@ -1234,33 +1546,51 @@ export class PageSpeedInsightsServer {
     };
   }
 
+  private formatCacheStats(stats: CacheStatsOutput, now: number): string {
+    const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    const duration = (seconds: number) =>
+      seconds < 60 ? `${seconds}s` : seconds < 3600 ? `${Math.round(seconds / 60)}m` : `${(seconds / 3600).toFixed(1)}h`;
+
+    let report = `# Cache Statistics\n\n`;
+    report += `**Backend:** ${stats.backend}\n`;
+    report += `**Entries:** ${stats.entries} / ${stats.maxEntries}\n`;
+    report += `**Size:** ${mb(stats.bytes)} / ${mb(stats.maxBytes)}\n`;
+    report += `**Hits / Misses:** ${stats.hits} / ${stats.misses}`;
+    report += stats.hitRate === null ? `\n` : ` (${Math.round(stats.hitRate * 100)}% hit rate)\n`;
+    report += `**Evictions:** ${stats.evictions}\n`;
+
+    if (stats.items.length === 0) {
+      return report + `\nThe cache is empty.\n`;
+    }
+
+    report += `\n| Type | URL | Strategy / Form factor | Categories | Age | Size | Expires in |\n|---|---|---|---|---|---|---|\n`;
+    for (const item of stats.items) {
+      const expiresIn = Math.max(0, Math.round((Date.parse(item.expiresAt) - now) / 1000));
+      report += `| ${item.type} | ${item.url} | ${item.strategy ?? item.formFactor ?? "-"} | ${item.categories?.join(", ") || "-"} `;
+      report += `| ${duration(item.ageSeconds)} | ${(item.sizeBytes / 1024).toFixed(1)} KB | ${duration(expiresIn)} |\n`;
+    }
+    return report;
+  }
+
   private formatCruxSummary(cruxData: CruxRecord, url: string): string {
     if (!cruxData.record) {
       return `# CrUX Field Data\n\n**URL:** ${url}\n**Status:** No field data available (insufficient traffic)\n\nThis URL doesn't have enough real-world usage data in Chrome UX Report.`;
     }
 
-    const { record } = cruxData;
-    let summary = `# CrUX Field Data Summary\n\n`;
-    summary += `**URL:** ${url}\n`;
-    summary += `**Form Factor:** ${record.key.formFactor}\n\n`;
-
-    const cwvMetrics = {
-        "largest_contentful_paint": "Largest Contentful Paint",
-        "interaction_to_next_paint": "Interaction to Next Paint",
-        "cumulative_layout_shift": "Cumulative Layout Shift",
-        "experimental_time_to_first_byte": "Time to First Byte",
-        "first_contentful_paint": "First Contentful Paint",
-    };
-
-    summary += `## Core Web Vitals (Real User Data)\n`;
-    Object.entries(cwvMetrics).forEach(([key, title]) => {
-      const metric = record.metrics?.[key];
-      if (metric) {
-        summary += `- **${title}**: ${metric.percentiles.p75}${key === "cumulative_layout_shift" ? "" : "ms"} (p75)\n`;
-      }
-    });
+    return formatCruxRecord(cruxData, "CrUX Field Data Summary", { label: "URL", value: url });
+  }
 
-    return summary;
+  private createCruxOutput(cruxData: CruxRecord, url: string): CruxOutput {
+    const summary = summarizeCruxRecord(cruxData);
+    return {
+      url,
+      hasData: Boolean(summary),
+      formFactor: summary?.formFactor ?? null,
+      collectionPeriod: summary?.collectionPeriod ?? null,
+      coreWebVitals: summary?.coreWebVitals ?? { passed: null, failing: [] },
+      metrics: summary?.metrics ?? {},
+      fractions: summary?.fractions ?? {},
+    };
   }
 
   private createComparison(resultA: PageSpeedInsightsResponse, resultB: PageSpeedInsightsResponse, input: { urlA: string; urlB: string; strategy: string; categories?: string[] }): ComparisonResult {
@@ -1302,13 +1632,20 @@ export class PageSpeedInsightsServer {
     };
   }
 
-  private createFullReport(psiData: PageSpeedInsightsResponse | null, cruxData: CruxRecord | null, input: AnalyzePageSpeedInput): string {
+  private createFullReport(
+    psiData: PageSpeedInsightsResponse | null,
+    cruxData: CruxRecord | null,
+    input: AnalyzePageSpeedInput,
+    analysisId?: string,
+    labVsField?: LabFieldComparison | null,
+    dataSource?: DataSource[]
+  ): string {
     let report = `# Full Performance Report (Lab + Field)\n\n`;
     report += `**URL:** ${input.url}\n`;
     report += `**Strategy:** ${input.strategy}\n\n`;
 
     if (psiData) {
-      report += this.formatAnalysisReport(psiData, input);
+      report += this.formatAnalysisReport(psiData, input, analysisId, dataSource);
       report += `\n\n---\n\n`;
     }
 
@@ -1318,33 +1655,27 @@ export class PageSpeedInsightsServer {
       report += `## Real User Experience (CrUX)\nNo field data available for this URL.\n`;
     }
 
-    if (psiData && cruxData?.record) {
-      report += `\n\n## Lab vs Field Comparison\n`;
-      report += `Lab data represents controlled testing conditions, while field data shows real user experiences.\n`;
+    if (labVsField) {
+      report += `\n\n${formatLabFieldComparison(labVsField)}`;
     }
 
     return report;
   }
 
-  private async handleGetVisualAnalysis(args: any) {
+  private async handleGetVisualAnalysis(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-visual-analysis");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting visual analysis");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting visual analysis");
       
       const visualData = ResponseParser.extractVisualData(result);
       
       let report = `# Visual Analysis\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       if (visualData.finalScreenshot) {
         report += `## Final Screenshot\n`;
@@ -1372,43 +1703,46 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Visual analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting visual analysis: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: {
+          analysisId,
+          ...input,
+          finalScreenshot: visualData.finalScreenshot
+            ? { width: visualData.finalScreenshot.width, height: visualData.finalScreenshot.height }
+            : null,
+          filmstrip: visualData.filmstrip.map(({ timing, timestamp }) => ({ timing, timestamp })),
+          fullPageScreenshot: visualData.fullPageScreenshot
+            ? {
+                width: visualData.fullPageScreenshot.screenshot.width,
+                height: visualData.fullPageScreenshot.screenshot.height,
+                nodeCount: Object.keys(visualData.fullPageScreenshot.nodes || {}).length,
+              }
+            : null,
+        } satisfies VisualOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Visual analysis failed");
+      return failureResult("getting visual analysis", failure);
     }
   }
 
-  private async handleGetElementAnalysis(args: any) {
+  private async handleGetElementAnalysis(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-element-analysis");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting element analysis");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting element analysis");
       
       const elementData = ResponseParser.extractElementData(result);
       
       let report = `# Element-Level Performance Analysis\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       if (elementData.lcpElement) {
         report += `## Largest Contentful Paint (LCP) Element\n`;
@@ -1444,43 +1778,32 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Element analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting element analysis: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: { analysisId, ...input, ...elementData } satisfies ElementOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Element analysis failed");
+      return failureResult("getting element analysis", failure);
     }
   }
 
-  private async handleGetNetworkAnalysis(args: any) {
+  private async handleGetNetworkAnalysis(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-network-analysis");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting network analysis");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting network analysis");
       
       const networkData = ResponseParser.extractNetworkData(result);
       
       let report = `# Network Waterfall Analysis\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       report += `## Summary\n`;
       report += `- **Total Requests:** ${networkData.requestCount}\n`;
@@ -1523,43 +1846,32 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Network analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting network analysis: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: { analysisId, ...input, ...networkData } satisfies NetworkOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Network analysis failed");
+      return failureResult("getting network analysis", failure);
     }
   }
 
-  private async handleGetJavaScriptAnalysis(args: any) {
+  private async handleGetJavaScriptAnalysis(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-javascript-analysis");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting JavaScript analysis");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting JavaScript analysis");
       
       const jsData = ResponseParser.extractJavaScriptData(result);
       
       let report = `# JavaScript Execution Analysis\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       if (jsData.bootupTime.length > 0) {
         report += `## JavaScript Bootup Time\n`;
@@ -1625,43 +1937,32 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "JavaScript analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting JavaScript analysis: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: { analysisId, ...input, ...jsData } satisfies JavaScriptOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "JavaScript analysis failed");
+      return failureResult("getting JavaScript analysis", failure);
     }
   }
 
-  private async handleGetImageOptimizationDetails(args: any) {
+  private async handleGetImageOptimizationDetails(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-image-optimization");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting image optimization details");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting image optimization details");
       
       const imageData = ResponseParser.extractImageOptimizationData(result);
       
       let report = `# Image Optimization Details\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       let totalSavings = 0;
       
@@ -1715,43 +2016,32 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Image optimization analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting image optimization details: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: { analysisId, ...input, ...imageData, totalSavingsBytes: totalSavings } satisfies ImageOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Image optimization analysis failed");
+      return failureResult("getting image optimization details", failure);
     }
   }
 
-  private async handleGetRenderBlockingDetails(args: any) {
+  private async handleGetRenderBlockingDetails(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-render-blocking");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting render-blocking details");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting render-blocking details");
       
       const renderBlockingData = ResponseParser.extractRenderBlockingData(result);
       
       let report = `# Render-Blocking Resources Analysis\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       if (renderBlockingData.resources.length > 0) {
         report += `## Render-Blocking Resources\n`;
@@ -1791,43 +2081,38 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Render-blocking analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting render-blocking details: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: {
+          analysisId,
+          ...input,
+          resources: renderBlockingData.resources,
+          totalWastedMs: renderBlockingData.totalWastedMs,
+          longestChain: renderBlockingData.criticalChains?.longestChain ?? null,
+        } satisfies RenderBlockingOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Render-blocking analysis failed");
+      return failureResult("getting render-blocking details", failure);
     }
   }
 
-  private async handleGetThirdPartyImpact(args: any) {
+  private async handleGetThirdPartyImpact(args: DrillDownInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-third-party");
     
     try {
-      const input = { url: args.url, strategy: args.strategy || 'mobile' };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting third-party impact");
-      
-      const result = await this.client.analyzePageSpeed({
-        ...input,
-        category: ["performance"],
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(args, correlationId, context);
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting third-party impact");
       
       const thirdPartyData = ResponseParser.extractThirdPartyData(result);
       
       let report = `# Third-Party Impact Analysis\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       if (thirdPartyData.summary.length > 0) {
         report += `## Summary\n`;
@@ -1871,49 +2156,45 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Third-party analysis failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting third-party impact: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: {
+          analysisId,
+          ...input,
+          summary: thirdPartyData.summary.map(({ entity, transferSize, blockingTime, mainThreadTime }) => ({
+            entity,
+            transferSize,
+            blockingTime,
+            mainThreadTime,
+          })),
+          totalBlockingTime: thirdPartyData.totalBlockingTime,
+          totalTransferSize: thirdPartyData.totalTransferSize,
+          facades: thirdPartyData.facades,
+        } satisfies ThirdPartyOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Third-party analysis failed");
+      return failureResult("getting third-party impact", failure);
     }
   }
 
-  private async handleGetFullAudit(args: any) {
+  private async handleGetFullAudit(auditInput: FullAuditInput, context: ToolContext) {
     const correlationId = randomUUID();
     const logger = createRequestLogger(correlationId, "get-full-audit");
     
     try {
-      const input = { 
-        url: args.url, 
-        strategy: args.strategy || 'mobile',
-        categories: args.categories || ["performance", "accessibility", "best-practices", "seo"]
-      };
-      logger.info({ url: input.url, strategy: input.strategy }, "Getting full audit");
-      
-      const result = await this.client.analyzePageSpeed({
-        url: input.url,
-        strategy: input.strategy,
-        category: input.categories,
-        locale: "en",
-      }, correlationId);
+      const { result, analysisId, ...input } = await this.loadAnalysis(auditInput, correlationId, { ...context, category: auditInput.categories });
+      logger.info({ url: input.url, strategy: input.strategy, analysisId }, "Getting full audit");
       
       const categoryData = ResponseParser.extractOtherCategories(result);
       const detailedMetrics = ResponseParser.extractDetailedMetrics(result);
       
       let report = `# Full Lighthouse Audit\n\n`;
       report += `**URL:** ${input.url}\n`;
-      report += `**Strategy:** ${input.strategy}\n\n`;
+      report += `**Strategy:** ${input.strategy}\n`;
+      report += `**Analysis ID:** \`${analysisId}\`\n\n`;
       
       report += `## Scores Overview\n`;
       Object.entries(categoryData).forEach(([category, data]) => {
@@ -1966,29 +2247,239 @@ export class PageSpeedInsightsServer {
           {
             type: "text",
             text: report,
-          }
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      logger.error({ error: errorMessage }, "Full audit failed");
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting full audit: ${errorMessage}`,
           },
+          this.analysisLink(analysisId),
         ],
-        isError: true,
+        structuredContent: {
+          analysisId,
+          ...input,
+          categories: categoryData,
+          metrics: detailedMetrics,
+          stackPacks: (stackPacks || []).map((pack) => pack.title),
+        } satisfies FullAuditOutput,
       };
+    } catch (error) {
+      const failure = describeFailure(error);
+      logger.error({ error: failure.message, kind: failure.kind }, "Full audit failed");
+      return failureResult("getting full audit", failure);
     }
   }
 
   async start() {
+    const env = getEnv();
+    if (env.TRANSPORT === "http") {
+      await this.startHttp(env.PORT, env.HOST, env.ALLOWED_HOSTS, env.HTTP_SESSION_IDLE_MS);
+      return;
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     this.logger.info("PageSpeed Insights MCP server started");
   }
+
+  async stop() {
+    // Closing a session's Server closes its transport, which ends any open SSE stream
+    await Promise.all([...this.httpSessions.values()].map((session) => session.server.close()));
+    this.httpSessions.clear();
+    if (this.httpServer) {
+      await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+    await this.server.close();
+  }
+
+  // Streamable HTTP (POST for requests, GET for the SSE stream, DELETE to end
+  // a session) on /mcp. Sessions are stateful: the initialize request creates
+  // a transport and a Server, later requests find them by Mcp-Session-Id.
+  // Requests whose Host header is not allowed are refused, so a web page
+  // cannot reach the server through DNS rebinding. A session with no request
+  // in flight for sessionIdleMs is closed, since clients that go away rarely
+  // send the DELETE.
+  private async startHttp(port: number, host: string, allowedHosts: string[], sessionIdleMs: number) {
+    this.sessionIdleMs = sessionIdleMs;
+    this.httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        if (error instanceof HttpBodyError) {
+          sendJsonRpcError(res, error.status, error.code, error.message);
+          return;
+        }
+        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+        this.logger.error({ error: errorMessage }, "HTTP request failed");
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once("error", reject);
+      this.httpServer!.listen(port, host, () => resolve());
+    });
+
+    const address = this.httpServer.address();
+    const boundPort = typeof address === "object" && address ? address.port : port;
+    this.allowedHosts = allowedHosts.length > 0 ? allowedHosts : defaultAllowedHosts(host, boundPort);
+    this.logger.info(
+      { host, port: boundPort, allowedHosts: this.allowedHosts },
+      "PageSpeed Insights MCP server listening (Streamable HTTP)"
+    );
+  }
+
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    if (pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: this.httpSessions.size }));
+      return;
+    }
+
+    if (pathname !== "/mcp") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const existing = sessionId ? this.httpSessions.get(sessionId) : undefined;
+
+    if (existing) {
+      this.holdSession(existing, res);
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      allowedHosts: this.allowedHosts,
+      enableDnsRebindingProtection: true,
+      onsessioninitialized: (id) => {
+        const session: HttpSession = { transport, server, inFlight: 0 };
+        this.httpSessions.set(id, session);
+        this.holdSession(session, res);
+        this.logger.info({ sessionId: id }, "MCP HTTP session started");
+      },
+    });
+    transport.onclose = () => {
+      const session = transport.sessionId ? this.httpSessions.get(transport.sessionId) : undefined;
+      if (session) {
+        clearTimeout(session.idleTimer);
+        this.httpSessions.delete(transport.sessionId!);
+        this.logger.info({ sessionId: transport.sessionId }, "MCP HTTP session closed");
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // Keeps the session open while this response is in flight (an SSE stream
+  // included), and starts its idle timer again once nothing is.
+  private holdSession(session: HttpSession, res: ServerResponse) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    session.inFlight++;
+    res.once("close", () => {
+      // Closed already (DELETE, stop()) or still busy
+      if (--session.inFlight > 0 || this.httpSessions.get(session.transport.sessionId!) !== session) return;
+      session.idleTimer = setTimeout(() => {
+        this.logger.info({ sessionId: session.transport.sessionId }, "MCP HTTP session idle, closing");
+        void session.server.close();
+      }, this.sessionIdleMs);
+      session.idleTimer.unref();
+    });
+  }
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  inFlight: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+// MCP requests are a few kilobytes; anything near this is a mistake or abuse.
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Wildcard binds answer on every interface, so only the loopback names are safe to assume.
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::", "[::]"]);
+
+function defaultAllowedHosts(host: string, port: number): string[] {
+  const names = ["localhost", "127.0.0.1", "[::1]"];
+  if (!WILDCARD_HOSTS.has(host) && !names.includes(host)) {
+    names.push(host.includes(":") && !host.startsWith("[") ? `[${host}]` : host);
+  }
+  return names.flatMap((name) => [name, `${name}:${port}`]);
+}
+
+/** A request body that cannot be handed to the transport, answered as a JSON-RPC error. */
+class HttpBodyError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpBodyError";
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () => new HttpBodyError(413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+    req.resume();
+    return Promise.reject(tooLarge());
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Drain the rest instead of resetting the socket under the 413
+        req.off("data", onData);
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.once("error", reject);
+    req.once("end", () => {
+      if (size > MAX_BODY_BYTES) return;
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw) return resolve(undefined);
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpBodyError(400, -32700, "Parse error: request body is not valid JSON"));
+      }
+    });
+  });
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
 }
 
 // Only auto-start when this file is the process entry point. When imported
@@ -0,0 +1,229 @@
+import type { CruxRecord, PageSpeedInsightsResponse } from "./types.js";
+import { FIELD_METRICS, rate, summarizeCruxRecord, type CruxRecordSummary, type Rating } from "./crux-report.js";
+
+/**
+ * Lighthouse lab metrics next to the CrUX p75 they stand in for. The lab run
+ * is one emulated load from a Google data centre; Search Console and the Core
+ * Web Vitals assessment use the field p75. When the two disagree, the pair
+ * that disagrees usually points at why (a PSI score of 95 with a failing
+ * Search Console report is almost always a field problem the lab cannot see).
+ */
+
+export type Agreement = "both-pass" | "both-fail" | "lab-pass-field-fail" | "lab-fail-field-pass";
+
+interface MetricPair {
+  label: string;
+  labAudit: string;
+  labLabel: string;
+  /** Lighthouse scoring thresholds for the lab side. */
+  labGood: number;
+  labPoor: number;
+  fieldMetric: string;
+}
+
+// TBT is the lab proxy for INP: neither the lab nor Lighthouse can interact
+// with the page. server-response-time is the document request only, so its
+// good threshold is Lighthouse's 600ms rather than the 800ms field TTFB.
+const METRIC_PAIRS: MetricPair[] = [
+  { label: "LCP", labAudit: "largest-contentful-paint", labLabel: "LCP", labGood: 2500, labPoor: 4000, fieldMetric: "largest_contentful_paint" },
+  { label: "INP", labAudit: "total-blocking-time", labLabel: "TBT", labGood: 200, labPoor: 600, fieldMetric: "interaction_to_next_paint" },
+  { label: "CLS", labAudit: "cumulative-layout-shift", labLabel: "CLS", labGood: 0.1, labPoor: 0.25, fieldMetric: "cumulative_layout_shift" },
+  { label: "FCP", labAudit: "first-contentful-paint", labLabel: "FCP", labGood: 1800, labPoor: 3000, fieldMetric: "first_contentful_paint" },
+  { label: "TTFB", labAudit: "server-response-time", labLabel: "Server response", labGood: 600, labPoor: 1800, fieldMetric: "experimental_time_to_first_byte" },
+];
+
+// Round trip times above this at p75 mean a good share of visitors are far
+// from the server or on slow networks.
+const HIGH_RTT_MS = 150;
+// Share of visits from the other form factor worth calling out.
+const MIXED_DEVICE_SHARE = 0.25;
+const WARM_NAVIGATION_SHARE = 0.15;
+
+export interface LabFieldPair {
+  metric: string;
+  lab: { metric: string; value: number; rating: Rating } | null;
+  field: { metric: string; p75: number; rating: Rating } | null;
+  /** Null when one side was not measured. */
+  agreement: Agreement | null;
+  likelyCauses: string[];
+}
+
+export interface LabFieldComparison {
+  performanceScore: number | null;
+  /** Field Core Web Vitals assessment (LCP, INP, CLS at p75). */
+  fieldPassed: boolean | null;
+  pairs: LabFieldPair[];
+  discrepancies: number;
+}
+
+function numeric(value: number | string | undefined): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+function passes(rating: Rating): boolean {
+  return rating === "good";
+}
+
+function agreementOf(lab: Rating, field: Rating): Agreement {
+  if (passes(lab) === passes(field)) return passes(lab) ? "both-pass" : "both-fail";
+  return passes(lab) ? "lab-pass-field-fail" : "lab-fail-field-pass";
+}
+
+function share(summary: CruxRecordSummary, metric: string, keys: string[]): number {
+  const fractions = summary.fractions[metric] || {};
+  return keys.reduce((total, key) => total + (fractions[key] ?? 0), 0);
+}
+
+// Evidence in the CrUX record that applies to any metric the field does worse on.
+function fieldSlowerContext(summary: CruxRecordSummary, strategy: string): string[] {
+  const causes: string[] = [];
+  const rtt = numeric(summary.metrics.round_trip_time?.p75);
+  if (rtt !== null && rtt > HIGH_RTT_MS) {
+    causes.push(`Geographic or network latency: real visitors see a ${rtt}ms round trip at p75, so a CDN or edge caching closer to them would help.`);
+  }
+  if (strategy === "desktop" && share(summary, "form_factors", ["phone", "tablet"]) >= MIXED_DEVICE_SHARE) {
+    const mobile = share(summary, "form_factors", ["phone", "tablet"]);
+    causes.push(`Device mix: ${(mobile * 100).toFixed(0)}% of field visits are on phones or tablets, while this lab run emulated a desktop.`);
+  }
+  return causes;
+}
+
+function fieldFasterContext(summary: CruxRecordSummary, strategy: string): string[] {
+  const causes: string[] = [];
+  const warm = share(summary, "navigation_types", ["back_forward_cache", "prerender", "restore"]);
+  if (warm >= WARM_NAVIGATION_SHARE) {
+    causes.push(`${(warm * 100).toFixed(0)}% of field navigations are back/forward cache, prerendered or restored loads, which the lab never measures.`);
+  }
+  if (strategy === "mobile" && share(summary, "form_factors", ["desktop"]) >= MIXED_DEVICE_SHARE) {
+    const desktop = share(summary, "form_factors", ["desktop"]);
+    causes.push(`Device mix: ${(desktop * 100).toFixed(0)}% of field visits are on desktop, while this lab run emulated a mid-range phone.`);
+  }
+  return causes;
+}
+
+const FIELD_SLOWER: Record<string, string[]> = {
+  LCP: [
+    "Logged-in or personalised traffic: real users get heavier pages (account widgets, recommendations) than the anonymous lab fetch.",
+    "The LCP element differs in the field: consent banners, A/B tests or carousels can swap in a larger or later element.",
+  ],
+  INP: [
+    "TBT only covers the initial load; INP counts every interaction of the visit, so slow handlers after load (menus, filters, third-party widgets) never show in the lab.",
+  ],
+  CLS: [
+    "The lab stops after load without scrolling; ads, lazy-loaded content, infinite scroll or late consent banners shift the layout afterwards.",
+  ],
+  FCP: [
+    "Real users pay for redirects, cold DNS and TLS setup and slower networks than the lab's simulated throttling.",
+  ],
+  TTFB: [
+    "Field TTFB includes redirects, DNS, connection setup and CDN cache misses; the lab measures a single server response.",
+    "Logged-in or personalised requests often bypass the CDN cache and hit the origin.",
+  ],
+};
+
+const FIELD_FASTER: Record<string, string[]> = {
+  LCP: [
+    "Throttling mismatch: Lighthouse emulates a slow device on a throttled connection, while most real visitors are on faster hardware and networks.",
+    "Repeat visitors load images, fonts and scripts from their cache; the lab always loads cold.",
+  ],
+  INP: [
+    "TBT is measured under 4× CPU throttling during load; real users rarely interact during that window or on devices that slow.",
+  ],
+  CLS: [
+    "Returning visitors already have fonts and images cached, so elements render at their final size with less shifting.",
+  ],
+  FCP: [
+    "Throttling mismatch: the lab's simulated slow connection is more pessimistic than the networks most visitors use.",
+  ],
+  TTFB: [
+    "The lab run may have hit a cold server or CDN cache; real traffic is mostly served warm.",
+  ],
+};
+
+export function compareLabField(
+  psiData: PageSpeedInsightsResponse,
+  cruxData: CruxRecord,
+  strategy: string
+): LabFieldComparison | null {
+  const summary = summarizeCruxRecord(cruxData);
+  if (!summary) return null;
+
+  const audits = psiData.lighthouseResult?.audits || {};
+  const pairs = METRIC_PAIRS.map((pair): LabFieldPair => {
+    const labValue = audits[pair.labAudit]?.numericValue;
+    const lab = typeof labValue === "number"
+      ? { metric: pair.labLabel, value: labValue, rating: rate(labValue, { good: pair.labGood, poor: pair.labPoor }) }
+      : null;
+
+    const definition = FIELD_METRICS.find((m) => m.key === pair.fieldMetric)!;
+    const p75 = numeric(summary.metrics[pair.fieldMetric]?.p75);
+    const field = p75 !== null ? { metric: definition.label, p75, rating: rate(p75, definition) } : null;
+
+    const agreement = lab && field ? agreementOf(lab.rating, field.rating) : null;
+    let likelyCauses: string[] = [];
+    if (agreement === "lab-pass-field-fail") {
+      likelyCauses = [...FIELD_SLOWER[pair.label], ...fieldSlowerContext(summary, strategy)];
+    } else if (agreement === "lab-fail-field-pass") {
+      likelyCauses = [...FIELD_FASTER[pair.label], ...fieldFasterContext(summary, strategy)];
+    }
+
+    return { metric: pair.label, lab, field, agreement, likelyCauses };
+  });
+
+  const score = psiData.lighthouseResult?.categories?.performance?.score;
+  return {
+    performanceScore: typeof score === "number" ? Math.round(score * 100) : null,
+    fieldPassed: summary.coreWebVitals.passed,
+    pairs,
+    discrepancies: pairs.filter((p) => p.agreement === "lab-pass-field-fail" || p.agreement === "lab-fail-field-pass").length,
+  };
+}
+
+function formatValue(value: number, metric: string): string {
+  return metric === "CLS" ? value.toFixed(2) : `${Math.round(value)}ms`;
+}
+
+const AGREEMENT_LABELS: Record<Agreement, string> = {
+  "both-pass": "✅ both good",
+  "both-fail": "❌ both need work",
+  "lab-pass-field-fail": "⚠️ lab passes, field fails",
+  "lab-fail-field-pass": "ℹ️ lab fails, field passes",
+};
+
+export function formatLabFieldComparison(comparison: LabFieldComparison): string {
+  let report = `## Lab vs Field Comparison\n\n`;
+  report += `Lab data is one emulated load under controlled throttling; field data is the p75 of real Chrome users over 28 days. `;
+  report += `Search Console and the Core Web Vitals assessment use the field numbers.\n\n`;
+
+  report += `| Metric | Lab | Lab rating | Field p75 | Field rating | Verdict |\n|---|---|---|---|---|---|\n`;
+  for (const pair of comparison.pairs) {
+    const lab = pair.lab ? `${pair.lab.metric} ${formatValue(pair.lab.value, pair.metric)}` : "n/a";
+    const field = pair.field ? `${pair.field.metric} ${formatValue(pair.field.p75, pair.metric)}` : "n/a";
+    const verdict = pair.agreement ? AGREEMENT_LABELS[pair.agreement] : "not comparable";
+    report += `| ${pair.metric} | ${lab} | ${pair.lab?.rating ?? "n/a"} | ${field} | ${pair.field?.rating ?? "n/a"} | ${verdict} |\n`;
+  }
+
+  if (comparison.performanceScore !== null && comparison.performanceScore >= 90 && comparison.fieldPassed === false) {
+    report += `\n**Why a ${comparison.performanceScore} lab score can sit next to a failing field assessment:** `;
+    report += `the Lighthouse score only grades the emulated load. Search Console reports the field p75, `;
+    report += `which reflects every visit, every device and everything that happens after load.\n`;
+  }
+
+  const flagged = comparison.pairs.filter((p) => p.likelyCauses.length > 0);
+  if (flagged.length === 0) {
+    report += `\nLab and field agree on every metric measured on both sides.\n`;
+    return report;
+  }
+
+  report += `\n### Discrepancies\n`;
+  for (const pair of flagged) {
+    const direction = pair.agreement === "lab-pass-field-fail" ? "good in the lab but not for real users" : "flagged in the lab but good for real users";
+    report += `\n**${pair.metric}** (${pair.lab!.metric} vs ${pair.field!.metric}) is ${direction}. Likely causes:\n`;
+    for (const cause of pair.likelyCauses) {
+      report += `- ${cause}\n`;
+    }
+  }
+
+  return report;
+}
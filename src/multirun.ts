@@ -2,12 +2,74 @@ export interface MetricSpread {
   median: number;
   min: number;
   max: number;
+  /** First and third quartiles; iqr = q3 - q1. */
+  q1: number;
+  q3: number;
+  iqr: number;
+  /** Median absolute deviation from the median. */
+  mad: number;
+  /** Standard deviation / mean; null when the mean is 0. */
+  cv: number | null;
+  /** 95% bootstrap confidence interval for the median. */
+  ci: { low: number; high: number };
+  /** Values outside Tukey's fences; left out of every other figure when outliers are excluded. */
+  outliers: number[];
 }
 
 export interface MultirunStats {
   analyses: number;
   requested: number;
   cachedReplays: number;
+  outliersExcluded: boolean;
+}
+
+export interface MultirunSummary {
+  stats: MultirunStats;
+  scores: Record<string, MetricSpread | null>;
+  metrics: Record<string, MetricSpread | null>;
+  /** One trimmed record per distinct analysis, in the order they ran. */
+  runs: MultirunRun[];
+  /** Set when the run count was chosen adaptively. */
+  adaptive?: AdaptiveSampling;
+}
+
+export interface MultirunRun {
+  fetchTime?: string;
+  /** Category scores, 0-100. */
+  scores: Record<string, number | null>;
+  /** RUN_METRICS that the run measured. */
+  metrics: Record<string, number>;
+  /** Audits scoring below 0.9 (informational audits without a score are never failing). */
+  failingAudits: string[];
+  /** Scores and metrics whose value in this run was flagged as an outlier. */
+  outlierIn: string[];
+}
+
+// Metrics kept per run; the spreads still cover every metric.
+export const RUN_METRICS = [
+  "first-contentful-paint",
+  "largest-contentful-paint",
+  "total-blocking-time",
+  "cumulative-layout-shift",
+  "speed-index",
+];
+
+// Lighthouse's own pass mark: below 0.9 an audit shows as failed or warning.
+const PASSING_SCORE = 0.9;
+
+export interface AdaptiveSampling {
+  targetPrecision: number;
+  minRuns: number;
+  maxRuns: number;
+  /** Width of the performance score's 95% CI when sampling stopped; null without a performance score. */
+  ciWidth: number | null;
+  tbtNoisy: boolean;
+  stoppedBecause: "precise" | "max-runs";
+}
+
+export interface MultirunOptions {
+  /** Compute spreads without the runs flagged as outliers. */
+  excludeOutliers?: boolean;
 }
 
 /**
@@ -39,8 +101,9 @@ export function dedupRuns(runs: PageSpeedRun[]): PageSpeedRun[] {
 interface PageSpeedRun {
   lighthouseResult?: {
     analysisUTCTimestamp?: string;
+    fetchTime?: string;
     categories?: Record<string, { score: number | null }>;
-    audits?: Record<string, { numericValue?: number }>;
+    audits?: Record<string, { numericValue?: number; score?: number | null }>;
   };
 }
 
@@ -70,18 +133,107 @@ export function median(values: number[]): number {
   return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
 }
 
-export function spread(values: number[]): MetricSpread | null {
+/** Quantile by linear interpolation between closest ranks (R type 7, as numpy and Excel do). */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const s = [...values].sort((a, b) => a - b);
+  const pos = (s.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return s[lower] + (s[upper] - s[lower]) * (pos - lower);
+}
+
+export function medianAbsoluteDeviation(values: number[]): number {
+  const m = median(values);
+  return median(values.map((v) => Math.abs(v - m)));
+}
+
+export function coefficientOfVariation(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean === 0) return null;
+  if (values.length === 1) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance) / Math.abs(mean);
+}
+
+// Small seeded PRNG (mulberry32): the same runs always give the same interval.
+function seededRandom(values: number[]): () => number {
+  let state = values.reduce((h, v) => Math.imul(h ^ Math.round(v * 1000), 2654435761) >>> 0, 0x9e3779b9);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const BOOTSTRAP_RESAMPLES = 2000;
+
+/**
+ * Percentile bootstrap interval for the median. With 3-5 runs it is wide and
+ * lumpy (the median of a resample can only be one of the observed values),
+ * which is honest: that is how little five runs pin the median down.
+ */
+export function bootstrapMedianCI(values: number[], level = 0.95): { low: number; high: number } {
+  if (values.length < 2) {
+    const only = values[0] ?? 0;
+    return { low: only, high: only };
+  }
+  const random = seededRandom(values);
+  const medians: number[] = [];
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    const resample = values.map(() => values[Math.floor(random() * values.length)]);
+    medians.push(median(resample));
+  }
+  const tail = (1 - level) / 2;
+  return { low: quantile(medians, tail), high: quantile(medians, 1 - tail) };
+}
+
+// Below this many runs the quartiles are too coarse to call anything an outlier.
+const MIN_RUNS_FOR_OUTLIERS = 4;
+
+/** Values outside Tukey's fences, 1.5 × IQR beyond the quartiles. */
+export function tukeyOutliers(values: number[]): number[] {
+  if (values.length < MIN_RUNS_FOR_OUTLIERS) return [];
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  return values.filter((v) => v < q1 - fence || v > q3 + fence);
+}
+
+export function spread(values: number[], { excludeOutliers = false }: MultirunOptions = {}): MetricSpread | null {
   if (values.length === 0) return null;
-  return { median: median(values), min: Math.min(...values), max: Math.max(...values) };
+  const outliers = tukeyOutliers(values);
+  const kept = excludeOutliers ? values.filter((v) => !outliers.includes(v)) : values;
+  const q1 = quantile(kept, 0.25);
+  const q3 = quantile(kept, 0.75);
+  return {
+    median: median(kept),
+    min: Math.min(...kept),
+    max: Math.max(...kept),
+    q1,
+    q3,
+    iqr: q3 - q1,
+    mad: medianAbsoluteDeviation(kept),
+    cv: coefficientOfVariation(kept),
+    ci: bootstrapMedianCI(kept),
+    outliers,
+  };
 }
 
 /** Median + spread per category score and per key metric across distinct runs. */
-export function summariseMultirun(runs: PageSpeedRun[]): { stats: MultirunStats; scores: Record<string, MetricSpread | null>; metrics: Record<string, MetricSpread | null> } {
+export function summariseMultirun(
+  runs: PageSpeedRun[],
+  options: MultirunOptions = {}
+): MultirunSummary {
   const unique = dedupRuns(runs);
   const stats: MultirunStats = {
     analyses: unique.length,
     requested: runs.length,
     cachedReplays: runs.length - unique.length,
+    outliersExcluded: Boolean(options.excludeOutliers),
   };
   const scores: Record<string, number[]> = {};
   const metrics: Record<string, number[]> = {};
@@ -95,14 +247,82 @@ export function summariseMultirun(runs: PageSpeedRun[]): { stats: MultirunStats;
       if (typeof a.numericValue === "number") (metrics[id] ||= []).push(a.numericValue);
     }
   }
+  const scoreSpreads = Object.fromEntries(
+    Object.entries(scores).map(([k, v]) => [k, spread(v, options)] as const)
+  );
+  const metricSpreads = Object.fromEntries(
+    Object.entries(metrics).map(([k, v]) => [k, spread(v, options)] as const)
+  );
   return {
     stats,
-    scores: Object.fromEntries(
-      Object.entries(scores).map(([k, v]) => [k, spread(v)] as const)
-    ),
-    metrics: Object.fromEntries(
-      Object.entries(metrics).map(([k, v]) => [k, spread(v)] as const)
-    ),
+    scores: scoreSpreads,
+    metrics: metricSpreads,
+    runs: unique.map((run) => runRecord(run, scoreSpreads, metricSpreads)),
+  };
+}
+
+function runRecord(
+  run: PageSpeedRun,
+  scoreSpreads: Record<string, MetricSpread | null>,
+  metricSpreads: Record<string, MetricSpread | null>
+): MultirunRun {
+  const lh = run.lighthouseResult;
+  const audits = lh?.audits || {};
+  const scores = Object.fromEntries(
+    Object.entries(lh?.categories || {}).map(([cat, v]) => [cat, typeof v.score === "number" ? v.score * 100 : null])
+  );
+  const metrics: Record<string, number> = {};
+  for (const id of RUN_METRICS) {
+    const value = audits[id]?.numericValue;
+    if (typeof value === "number") metrics[id] = value;
+  }
+  const outlierIn = [
+    ...Object.entries(scores).filter(([k, v]) => v !== null && scoreSpreads[k]?.outliers.includes(v)).map(([k]) => k),
+    ...Object.entries(audits)
+      .filter(([id, a]) => typeof a.numericValue === "number" && metricSpreads[id]?.outliers.includes(a.numericValue))
+      .map(([id]) => id),
+  ];
+  return {
+    fetchTime: lh?.fetchTime ?? lh?.analysisUTCTimestamp,
+    scores,
+    metrics,
+    failingAudits: Object.entries(audits)
+      .filter(([, a]) => typeof a.score === "number" && a.score < PASSING_SCORE)
+      .map(([id]) => id),
+    outlierIn,
   };
 }
 
+
+// Adaptive sampling: default floor and cap on runs, and the hard limit on the cap.
+export const ADAPTIVE_MIN_RUNS = 3;
+export const ADAPTIVE_MAX_RUNS = 8;
+export const ADAPTIVE_RUN_LIMIT = 10;
+
+// TBT counts as noisy when it varies by more than half its mean and its IQR
+// is wide enough to move the score; 20ms vs 60ms is a big CV but no news.
+const NOISY_TBT_CV = 0.5;
+const NOISY_TBT_IQR_MS = 100;
+
+export interface SamplingDecision {
+  stop: boolean;
+  ciWidth: number | null;
+  tbtNoisy: boolean;
+}
+
+/**
+ * Adaptive sampling: instead of a fixed count, keep running until the median
+ * performance score is pinned down to `targetPrecision` points (the width of
+ * its bootstrap CI). A stable page stops after the minimum; a page whose TBT
+ * still swings wildly keeps going up to the cap even once the score looks
+ * settled, since TBT is what moves the score from one run to the next.
+ */
+export function samplingDecision(summary: MultirunSummary, targetPrecision: number): SamplingDecision {
+  const perf = summary.scores["performance"];
+  const tbt = summary.metrics["total-blocking-time"];
+  const ciWidth = perf ? perf.ci.high - perf.ci.low : null;
+  const tbtNoisy = Boolean(tbt && tbt.cv !== null && tbt.cv > NOISY_TBT_CV && tbt.iqr > NOISY_TBT_IQR_MS);
+  // Nothing to pin down without a performance score: the minimum runs will have to do
+  const precise = ciWidth === null || ciWidth <= targetPrecision;
+  return { stop: precise && !tbtNoisy, ciWidth, tbtNoisy };
+}
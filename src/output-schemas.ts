@@ -0,0 +1,583 @@
+import { z } from "zod";
+
+/**
+ * Shapes of the `structuredContent` each tool returns next to its text.
+ * Advertised to clients as the tool's `outputSchema`; automation agents read
+ * these fields instead of scraping the markdown.
+ */
+
+const NullableNumber = z.number().nullable();
+
+export const MetricSpreadSchema = z.object({
+  median: z.number(),
+  min: z.number(),
+  max: z.number(),
+  q1: z.number(),
+  q3: z.number(),
+  iqr: z.number().describe("Interquartile range, q3 - q1"),
+  mad: z.number().describe("Median absolute deviation from the median"),
+  cv: NullableNumber.describe("Coefficient of variation (standard deviation / mean); null when the mean is 0"),
+  ci: z.object({ low: z.number(), high: z.number() }).describe("95% bootstrap confidence interval for the median"),
+  outliers: z.array(z.number()).describe("Values outside Tukey's fences (1.5 × IQR beyond the quartiles)"),
+});
+
+// Baselines recorded before the extended statistics only carry median, min and max.
+const BaselineSpreadSchema = MetricSpreadSchema.partial({
+  q1: true,
+  q3: true,
+  iqr: true,
+  mad: true,
+  cv: true,
+  ci: true,
+  outliers: true,
+});
+
+export const MultirunSummarySchema = z.object({
+  stats: z.object({
+    analyses: z.number(),
+    requested: z.number(),
+    cachedReplays: z.number(),
+    outliersExcluded: z.boolean().describe("Outliers were left out of every figure except `outliers`"),
+  }),
+  scores: z.record(z.string(), MetricSpreadSchema.nullable()),
+  metrics: z.record(z.string(), MetricSpreadSchema.nullable()),
+  runs: z
+    .array(
+      z.object({
+        fetchTime: z.string().optional(),
+        scores: z.record(z.string(), NullableNumber).describe("Category scores on a 0-100 scale"),
+        metrics: z.record(z.string(), z.number()).describe("Key Lighthouse metrics keyed by audit id"),
+        failingAudits: z.array(z.string()).describe("Audits scoring below 0.9 in this run"),
+        outlierIn: z.array(z.string()).describe("Scores and metrics where this run's value is an outlier"),
+      })
+    )
+    .describe("One record per distinct analysis, in the order they ran"),
+  adaptive: z
+    .object({
+      targetPrecision: z.number(),
+      minRuns: z.number(),
+      maxRuns: z.number(),
+      ciWidth: NullableNumber.describe("Width of the performance score's 95% CI when sampling stopped"),
+      tbtNoisy: z.boolean(),
+      stoppedBecause: z.enum(["precise", "max-runs"]).describe("\"max-runs\": the cap was reached before the target precision"),
+    })
+    .optional()
+    .describe("Present when target_precision chose the number of runs"),
+});
+
+const LabMetricSchema = z.object({
+  numericValue: z.number().optional(),
+  displayValue: z.string().optional(),
+  score: NullableNumber,
+});
+
+const OpportunitySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  displayValue: z.string().optional(),
+});
+
+const LabResultSchema = z.object({
+  analysisTime: z.string().optional(),
+  lighthouseVersion: z.string().optional(),
+  scores: z.record(z.string(), NullableNumber).describe("Category scores on a 0-100 scale"),
+  metrics: z.record(z.string(), LabMetricSchema).describe("Key Lighthouse metrics keyed by audit id"),
+  opportunities: z.array(OpportunitySchema),
+  multirun: MultirunSummarySchema.optional(),
+});
+
+const DataSourceSchema = z
+  .array(
+    z.object({
+      strategy: z.string(),
+      servedFromCache: z.boolean(),
+      revalidating: z.boolean().describe("A background refresh was started for the next call"),
+      fetchTime: z.string().nullable().describe("When Lighthouse ran"),
+      ageSeconds: z.number().nullable(),
+    })
+  )
+  .describe("Per strategy: whether the result came from the cache and how old the Lighthouse run is");
+
+export const AnalysisOutputSchema = LabResultSchema.extend({
+  analysisId: z.string(),
+  url: z.string(),
+  strategy: z.string(),
+  fieldData: z
+    .record(z.string(), z.object({ category: z.string().optional(), p75: z.number().optional() }))
+    .optional()
+    .describe("PSI loadingExperience: real Chrome users, last 28 days"),
+  desktop: LabResultSchema.optional().describe("Desktop result when strategy is \"both\""),
+  strategyGap: z
+    .array(
+      z.object({
+        metric: z.string(),
+        mobile: MetricSpreadSchema,
+        desktop: MetricSpreadSchema,
+        medianGap: z.number().describe("Desktop median minus mobile median"),
+        guaranteedGap: z.number().describe("What the disjoint ranges guarantee; 0 when they overlap"),
+        verdict: z.enum(["desktop-better", "mobile-better", "within-noise"]),
+      })
+    )
+    .optional()
+    .describe("Mobile vs desktop per key metric, when strategy is \"both\" with several runs"),
+  dataSource: DataSourceSchema.optional(),
+});
+
+export const PerformanceSummaryOutputSchema = z.object({
+  url: z.string(),
+  strategy: z.string(),
+  timestamp: z.string().optional(),
+  dataSource: DataSourceSchema.optional(),
+  performance: z.object({
+    score: NullableNumber,
+    metrics: z.object({
+      firstContentfulPaint: z.string().optional(),
+      largestContentfulPaint: z.string().optional(),
+      cumulativeLayoutShift: z.string().optional(),
+      speedIndex: z.string().optional(),
+      totalBlockingTime: z.string().optional(),
+      firstInputDelay: z.string().optional(),
+    }),
+  }),
+  opportunities: z.array(
+    z.object({
+      id: z.string(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      score: NullableNumber.optional(),
+      displayValue: z.string().optional(),
+    })
+  ),
+  analysisId: z.string(),
+});
+
+// CrUX reports CLS percentiles and histogram bounds as strings ("0.05").
+const CruxNumber = z.union([z.number(), z.string()]);
+
+const RatingSchema = z.enum(["good", "needs-improvement", "poor"]);
+
+const CruxMetricsSchema = z.record(
+  z.string(),
+  z.object({
+    p75: CruxNumber,
+    histogram: z.array(z.object({ start: CruxNumber, end: CruxNumber.optional(), density: z.number() })),
+    rating: RatingSchema.nullable().describe("Against the official thresholds; null for metrics without any"),
+    passed: z.boolean().nullable(),
+    distribution: z
+      .object({ good: z.number(), needsImprovement: z.number(), poor: z.number() })
+      .nullable()
+      .describe("Share of visits in each bucket (0-1)"),
+  })
+);
+
+const CruxFieldFields = {
+  hasData: z.boolean(),
+  formFactor: z.string().nullable(),
+  collectionPeriod: z.object({ firstDate: z.string(), lastDate: z.string() }).nullable(),
+  coreWebVitals: z.object({
+    passed: z.boolean().nullable().describe("LCP, INP and CLS all good at p75; null when none was measured"),
+    failing: z.array(z.string()),
+  }),
+  metrics: CruxMetricsSchema,
+  fractions: z
+    .record(z.string(), z.record(z.string(), z.number()))
+    .describe("navigation_types, form_factors and largest_contentful_paint_resource_type shares"),
+};
+
+export const CruxOutputSchema = z.object({
+  url: z.string(),
+  ...CruxFieldFields,
+});
+
+export const OriginCruxOutputSchema = z.object({
+  origin: z.string(),
+  ...CruxFieldFields,
+});
+
+export const CruxHistoryOutputSchema = z.object({
+  target: z.string(),
+  targetType: z.enum(["url", "origin"]),
+  hasData: z.boolean(),
+  formFactor: z.string().nullable(),
+  periods: z.array(z.object({ firstDate: z.string(), lastDate: z.string() })),
+  metrics: z.array(
+    z.object({
+      metric: z.string(),
+      label: z.string(),
+      unit: z.string(),
+      good: z.number(),
+      poor: z.number(),
+      p75s: z.array(NullableNumber).describe("One p75 per period, oldest first"),
+      latest: NullableNumber,
+      rating: RatingSchema.nullable(),
+    })
+  ),
+  crossings: z.array(
+    z.object({
+      metric: z.string(),
+      label: z.string(),
+      periodEnd: z.string(),
+      from: RatingSchema,
+      to: RatingSchema,
+      previous: z.number(),
+      current: z.number(),
+      direction: z.enum(["improved", "regressed"]),
+    })
+  ),
+});
+
+export const ComparisonOutputSchema = z.object({
+  urlA: z.string(),
+  urlB: z.string(),
+  strategy: z.string(),
+  comparison: z.object({
+    scores: z.object({ urlA: z.number(), urlB: z.number(), difference: z.number() }),
+    metrics: z.record(
+      z.string(),
+      z.object({
+        urlA: z.union([z.string(), z.number()]),
+        urlB: z.union([z.string(), z.number()]),
+        better: z.enum(["A", "B", "tie"]),
+      })
+    ),
+  }),
+  analysisIds: z.object({ urlA: z.string(), urlB: z.string() }),
+});
+
+const LabFieldPairSchema = z.object({
+  metric: z.string(),
+  lab: z.object({ metric: z.string(), value: z.number(), rating: RatingSchema }).nullable(),
+  field: z.object({ metric: z.string(), p75: z.number(), rating: RatingSchema }).nullable(),
+  agreement: z
+    .enum(["both-pass", "both-fail", "lab-pass-field-fail", "lab-fail-field-pass"])
+    .nullable()
+    .describe("Null when the metric was not measured on both sides"),
+  likelyCauses: z.array(z.string()),
+});
+
+export const FullReportOutputSchema = z.object({
+  url: z.string(),
+  strategy: z.string(),
+  lab: AnalysisOutputSchema.nullable().describe("Lighthouse lab data; null when the PSI call failed"),
+  field: CruxOutputSchema.nullable().describe("CrUX field data; null when the CrUX call failed"),
+  labVsField: z
+    .object({
+      performanceScore: z.number().nullable(),
+      fieldPassed: z.boolean().nullable(),
+      pairs: z.array(LabFieldPairSchema),
+      discrepancies: z.number(),
+    })
+    .nullable()
+    .describe("Lab metrics against CrUX p75 (TBT stands in for INP); null unless both lab and field data are available"),
+});
+
+export const FailureSchema = z.object({
+  kind: z
+    .enum([
+      "unreachable",
+      "dns-failure",
+      "timeout",
+      "no-fcp",
+      "blocked-by-robots",
+      "captcha",
+      "invalid-api-key",
+      "invalid-url",
+      "quota",
+      "rate-limited",
+      "upstream-unavailable",
+      "cancelled",
+      "no-baseline",
+      "not-cached",
+      "invalid-input",
+      "unknown-analysis",
+      "unknown",
+    ])
+    .describe("What went wrong"),
+  message: z.string(),
+  status: z.number().nullable().describe("HTTP status from Google, when there was one"),
+  retryable: z.boolean().describe("Whether the same call may succeed if tried again"),
+  action: z.enum(["retry", "retry-later", "switch-strategy", "fix-input", "tell-user"]).describe("Suggested next step"),
+  hint: z.string().describe("Short remediation advice"),
+});
+
+export const BatchOutputSchema = z.object({
+  summary: z.object({ total: z.number(), successful: z.number(), failed: z.number() }),
+  results: z.array(
+    z.object({
+      url: z.string(),
+      analysisId: z.string().optional(),
+      result: PerformanceSummaryOutputSchema.omit({ analysisId: true }).optional(),
+      error: z.string().optional(),
+      failure: FailureSchema.optional(),
+    })
+  ),
+});
+
+export const ClearCacheOutputSchema = z.object({
+  clearedEntries: z.number(),
+  remainingEntries: z.number(),
+});
+
+export const CacheStatsOutputSchema = z.object({
+  backend: z.enum(["memory", "disk"]),
+  entries: z.number(),
+  bytes: z.number(),
+  maxEntries: z.number(),
+  maxBytes: z.number(),
+  hits: z.number().describe("Since this server process started"),
+  misses: z.number(),
+  evictions: z.number().describe("Entries dropped to stay within maxEntries/maxBytes"),
+  hitRate: z.number().nullable().describe("hits / (hits + misses); null before the first lookup"),
+  items: z.array(
+    z.object({
+      key: z.string(),
+      type: z.enum(["psi", "crux"]),
+      url: z.string(),
+      strategy: z.string().nullable(),
+      categories: z.array(z.string()).nullable(),
+      locale: z.string().nullable(),
+      formFactor: z.string().nullable(),
+      ageSeconds: z.number(),
+      sizeBytes: z.number(),
+      expiresAt: z.string(),
+    })
+  ).describe("Live entries, most recently used first"),
+});
+
+const RecommendationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  impact: z.enum(["high", "medium", "low"]),
+  effort: z.enum(["low", "medium", "high"]),
+  priority: z.number(),
+  category: z.enum(["performance", "ux", "seo", "accessibility"]),
+  potentialSavings: z.string().optional(),
+  howToFix: z.array(z.string()),
+  moreInfo: z.string().optional(),
+});
+
+export const RecommendationsOutputSchema = z.object({
+  url: z.string(),
+  strategy: z.string(),
+  overallScore: z.number(),
+  recommendations: z.array(RecommendationSchema),
+  quickWins: z.array(RecommendationSchema),
+  summary: z.object({
+    totalRecommendations: z.number(),
+    highPriority: z.number(),
+    mediumPriority: z.number(),
+    lowPriority: z.number(),
+    estimatedImpact: z.string(),
+  }),
+  analysisId: z.string(),
+});
+
+const DrillDownBase = z.object({
+  analysisId: z.string(),
+  url: z.string(),
+  strategy: z.string(),
+});
+
+const ElementNodeSchema = z.object({
+  selector: z.string(),
+  snippet: z.string(),
+  nodeLabel: z.string().optional(),
+  path: z.string().optional(),
+  boundingRect: z
+    .object({ top: z.number(), left: z.number(), width: z.number(), height: z.number() })
+    .optional(),
+});
+
+export const VisualOutputSchema = DrillDownBase.extend({
+  finalScreenshot: z.object({ width: z.number(), height: z.number() }).nullable(),
+  filmstrip: z.array(z.object({ timing: z.number(), timestamp: z.number() })),
+  fullPageScreenshot: z
+    .object({ width: z.number(), height: z.number(), nodeCount: z.number() })
+    .nullable(),
+}).describe("Image data is omitted; read psi://analysis/{analysisId}/lighthouse.json for the base64 frames");
+
+export const ElementOutputSchema = DrillDownBase.extend({
+  lcpElement: ElementNodeSchema.nullable(),
+  clsElements: z.array(z.object({ node: ElementNodeSchema, score: z.number() })),
+  lazyLoadedLcp: ElementNodeSchema.nullable(),
+});
+
+export const NetworkOutputSchema = DrillDownBase.extend({
+  requests: z.array(
+    z.object({
+      url: z.string(),
+      protocol: z.string().optional(),
+      startTime: z.number(),
+      endTime: z.number(),
+      transferSize: z.number(),
+      resourceSize: z.number(),
+      statusCode: z.number(),
+      mimeType: z.string(),
+      resourceType: z.string(),
+      priority: z.string().optional(),
+    })
+  ),
+  resourceSummary: z.array(z.object({ resourceType: z.string(), count: z.number(), size: z.number() })),
+  totalByteWeight: z.number(),
+  requestCount: z.number(),
+  rtt: NullableNumber,
+  serverLatency: NullableNumber,
+});
+
+const WastedBytesItem = z.object({ source: z.string(), totalBytes: z.number(), wastedBytes: z.number() });
+
+export const JavaScriptOutputSchema = DrillDownBase.extend({
+  bootupTime: z.array(
+    z.object({ url: z.string(), total: z.number(), scripting: z.number(), scriptParseCompile: z.number() })
+  ),
+  mainThreadWork: z.array(z.object({ group: z.string(), groupLabel: z.string(), duration: z.number() })),
+  unusedJavaScript: z.array(
+    z.object({ url: z.string(), totalBytes: z.number(), wastedBytes: z.number(), wastedPercent: z.number() })
+  ),
+  duplicatedJavaScript: z.array(WastedBytesItem),
+  legacyJavaScript: z.array(WastedBytesItem),
+});
+
+const ImageItemSchema = z.object({
+  url: z.string(),
+  totalBytes: z.number(),
+  wastedBytes: z.number(),
+  wastedPercent: z.number(),
+  node: ElementNodeSchema.optional(),
+});
+
+export const ImageOutputSchema = DrillDownBase.extend({
+  responsiveImages: z.array(ImageItemSchema),
+  offscreenImages: z.array(ImageItemSchema),
+  unoptimizedImages: z.array(ImageItemSchema),
+  modernFormats: z.array(ImageItemSchema),
+  totalSavingsBytes: z.number(),
+});
+
+export const RenderBlockingOutputSchema = DrillDownBase.extend({
+  resources: z.array(z.object({ url: z.string(), totalBytes: z.number(), wastedMs: z.number() })),
+  totalWastedMs: z.number(),
+  longestChain: z
+    .object({ duration: z.number(), length: z.number(), transferSize: z.number() })
+    .nullable(),
+});
+
+export const ThirdPartyOutputSchema = DrillDownBase.extend({
+  summary: z.array(
+    z.object({
+      entity: z.string(),
+      transferSize: z.number(),
+      blockingTime: z.number(),
+      mainThreadTime: z.number(),
+    })
+  ),
+  totalBlockingTime: z.number(),
+  totalTransferSize: z.number(),
+  facades: z.array(z.object({ product: z.string(), transferSize: z.number(), blockingTime: z.number() })),
+});
+
+const AuditCategorySchema = z.object({
+  score: NullableNumber,
+  keyAudits: z.array(
+    z.object({ id: z.string(), title: z.string(), score: NullableNumber, description: z.string().optional() })
+  ),
+});
+
+export const FullAuditOutputSchema = DrillDownBase.extend({
+  categories: z.record(z.string(), AuditCategorySchema).describe("Scores on a 0-1 scale, as Lighthouse reports them"),
+  metrics: z.object({
+    firstContentfulPaint: z.number().optional(),
+    largestContentfulPaint: z.number().optional(),
+    cumulativeLayoutShift: z.number().optional(),
+    totalBlockingTime: z.number().optional(),
+    maxPotentialFID: z.number().optional(),
+    speedIndex: z.number().optional(),
+    timeToInteractive: z.number().optional(),
+  }),
+  stackPacks: z.array(z.string()),
+});
+
+export const PerformanceMapOutputSchema = z.object({
+  analysisId: z.string(),
+  url: z.string(),
+  strategy: z.string(),
+  score: NullableNumber,
+  vitals: z.array(
+    z.object({
+      label: z.string(),
+      numericValue: z.number(),
+      displayValue: z.string().optional(),
+      status: z.enum(["good", "needs-improvement", "poor"]),
+    })
+  ),
+  opportunities: z.array(OpportunitySchema),
+  mermaid: z.string(),
+});
+
+export const RangeVerdictSchema = z.object({
+  metric: z.string(),
+  before: BaselineSpreadSchema,
+  after: BaselineSpreadSchema,
+  verdict: z.enum(["improved", "regressed", "no-verdict"]),
+  medianDelta: z.number(),
+  guaranteedDelta: z.number(),
+});
+
+export const CompareBaselineOutputSchema = z.object({
+  analysisId: z.string().optional().describe("Absent when two saved baselines were compared"),
+  url: z.string(),
+  strategy: z.string(),
+  baselineName: z.string(),
+  comparedTo: z.string().optional().describe("The saved baseline compared against baselineName, in \"saved\" mode"),
+  mode: z
+    .enum(["recorded", "compared", "saved"])
+    .describe("\"recorded\": this run became the baseline, nothing was compared; \"saved\": two saved baselines were compared, nothing was run"),
+  stats: MultirunSummarySchema.shape.stats.optional(),
+  baselineRecorded: z.string(),
+  lighthouseVersionChanged: z.boolean(),
+  verdicts: z.array(RangeVerdictSchema),
+});
+
+const BaselineEntrySchema = z.object({
+  url: z.string(),
+  strategy: z.string(),
+  name: z.string(),
+  recorded: z.string(),
+  lighthouseVersion: z.string().optional(),
+  performance: BaselineSpreadSchema.nullable().describe("Performance score spread of the snapshot"),
+});
+
+export const ListBaselinesOutputSchema = z.object({
+  baselines: z.array(BaselineEntrySchema).describe("Newest first"),
+});
+
+export const DeleteBaselineOutputSchema = z.object({
+  deleted: z.boolean().describe("False when no such baseline existed"),
+  remaining: z.number().describe("Baselines left for the URL"),
+});
+
+export type AnalysisOutput = z.infer<typeof AnalysisOutputSchema>;
+export type DataSource = z.infer<typeof DataSourceSchema>[number];
+export type PerformanceSummaryOutput = z.infer<typeof PerformanceSummaryOutputSchema>;
+export type CruxOutput = z.infer<typeof CruxOutputSchema>;
+export type OriginCruxOutput = z.infer<typeof OriginCruxOutputSchema>;
+export type CruxHistoryOutput = z.infer<typeof CruxHistoryOutputSchema>;
+export type ComparisonOutput = z.infer<typeof ComparisonOutputSchema>;
+export type FullReportOutput = z.infer<typeof FullReportOutputSchema>;
+export type BatchOutput = z.infer<typeof BatchOutputSchema>;
+export type RecommendationsOutput = z.infer<typeof RecommendationsOutputSchema>;
+export type VisualOutput = z.infer<typeof VisualOutputSchema>;
+export type ElementOutput = z.infer<typeof ElementOutputSchema>;
+export type NetworkOutput = z.infer<typeof NetworkOutputSchema>;
+export type JavaScriptOutput = z.infer<typeof JavaScriptOutputSchema>;
+export type ImageOutput = z.infer<typeof ImageOutputSchema>;
+export type RenderBlockingOutput = z.infer<typeof RenderBlockingOutputSchema>;
+export type ThirdPartyOutput = z.infer<typeof ThirdPartyOutputSchema>;
+export type FullAuditOutput = z.infer<typeof FullAuditOutputSchema>;
+export type PerformanceMapOutput = z.infer<typeof PerformanceMapOutputSchema>;
+export type CompareBaselineOutput = z.infer<typeof CompareBaselineOutputSchema>;
+export type CacheStatsOutput = z.infer<typeof CacheStatsOutputSchema>;
+export type ListBaselinesOutput = z.infer<typeof ListBaselinesOutputSchema>;
+export type DeleteBaselineOutput = z.infer<typeof DeleteBaselineOutputSchema>;
+
@@ -1,282 +1,428 @@
-import fetch from "node-fetch";
-import pRetry from "p-retry";
 import pLimit from "p-limit";
-import { createRequire } from "module";
 import { getEnv } from "./env.js";
 import { createRequestLogger } from "./logger.js";
-import { cache, createPSICacheKey, createCruxCacheKey } from "./cache.js";
-import { summariseMultirun } from "./multirun.js";
+import { cache, createPSICacheKey, createCruxCacheKey, createCruxHistoryCacheKey } from "./cache.js";
+import {
+  ADAPTIVE_MAX_RUNS,
+  ADAPTIVE_MIN_RUNS,
+  ADAPTIVE_RUN_LIMIT,
+  samplingDecision,
+  summariseMultirun,
+} from "./multirun.js";
+import { CancelledError, isCancelled, sleep, throwIfCancelled } from "./cancellation.js";
+import { UpstreamClient, type UpstreamRequest, type UpstreamResponse } from "./upstream.js";
+import { createFixtureStore, type FixtureStore } from "./fixtures.js";
+import { CacheMissError, UnreachablePageError, parsePageFailure } from "./errors.js";
 import type { 
   AnalyzePageSpeedInput, 
+  CruxHistoryInput,
   CruxSummaryInput,
   OriginCruxInput,
 } from "./schemas.js";
-import type { PageSpeedInsightsResponse } from "./types.js";
+import type { CruxHistoryRecord, PageSpeedInsightsResponse } from "./types.js";
+import type { ProgressReporter } from "./progress.js";
 
-const pkg = createRequire(import.meta.url)("../package.json") as { version: string };
-const USER_AGENT = `pagespeed-insights-mcp/${pkg.version}`;
+export interface RequestOptions {
+  /** Aborts in-flight requests and multirun waits; the call rejects with CancelledError. */
+  signal?: AbortSignal;
+  /** Counts PSI runs (runs × strategies) for the calling tool. */
+  progress?: ProgressReporter;
+  /** Told, per strategy, whether the PSI result came from the cache. */
+  onCacheStatus?: (status: CacheStatus) => void;
+}
+
+export interface CacheStatus {
+  strategy: string;
+  servedFromCache: boolean;
+  /** A background refresh was started (freshness "revalidate-in-background"). */
+  revalidating: boolean;
+}
+
+// How many analyses to run: a fixed count, or between `runs` and `maxRuns`
+// until the performance score is as precise as asked.
+interface RunPlan {
+  runs: number;
+  maxRuns: number;
+  targetPrecision?: number;
+}
+
+function runPlan(input: AnalyzePageSpeedInput): RunPlan {
+  if (input.target_precision === undefined) {
+    const runs = Math.max(1, Math.min(5, input.runs ?? 1));
+    return { runs, maxRuns: runs };
+  }
+  const maxRuns = Math.max(2, Math.min(ADAPTIVE_RUN_LIMIT, input.max_runs ?? ADAPTIVE_MAX_RUNS));
+  const runs = Math.max(2, Math.min(maxRuns, input.runs ?? ADAPTIVE_MIN_RUNS));
+  return { runs, maxRuns, targetPrecision: input.target_precision };
+}
+
+// One upstream call shared by every caller asking for the same cache key.
+interface PendingRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
 
 export class PageSpeedClient {
-  private readonly apiKey: string;
-  private readonly timeout: number;
-  private readonly retryAttempts: number;
+  private readonly upstream = new UpstreamClient();
   private readonly limiter: ReturnType<typeof pLimit>;
   private readonly cacheTTL: number;
+  private readonly psiBaseUrl: string;
+  private readonly cruxBaseUrl: string;
+  private readonly fixtures: FixtureStore | undefined;
+  private readonly inFlight = new Map<string, PendingRequest>();
 
   constructor() {
     const env = getEnv();
-    this.apiKey = env.GOOGLE_API_KEY;
-    this.timeout = env.REQUEST_TIMEOUT;
-    this.retryAttempts = env.RETRY_ATTEMPTS;
     this.cacheTTL = env.CACHE_TTL * 1000; // Convert to milliseconds
     this.limiter = pLimit(env.MAX_CONCURRENCY);
+    this.psiBaseUrl = env.PSI_BASE_URL;
+    this.cruxBaseUrl = env.CRUX_BASE_URL;
+    this.fixtures = createFixtureStore(env);
   }
 
-  // Strip the API key out of anything that may end up in logs or error traces.
   private redact(text: string): string {
-    return text.replaceAll(this.apiKey, "[REDACTED]");
+    return this.upstream.redact(text);
   }
 
-  private async makeRequest(url: string, correlationId: string): Promise<any> {
-    const logger = createRequestLogger(correlationId, "psi-request");
-
-    return pRetry(
-      async (attempt) => {
-        logger.debug({ attempt, url: this.redact(url) }, "Making PSI request");
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-        
-        try {
-          const response = await fetch(url, {
-            signal: controller.signal,
-            headers: {
-              "User-Agent": USER_AGENT,
-            },
-          });
-          
-          clearTimeout(timeoutId);
-          
-          if (!response.ok) {
-            const errorText = await response.text();
-            const error = new Error(`PSI API error: ${response.status} ${response.statusText} - ${errorText}`);
-            
-            // Don't retry on client errors (4xx)
-            if (response.status >= 400 && response.status < 500) {
-              error.name = "ClientError";
-            }
-            
-            throw error;
-          }
-          
-          const data = await response.json();
-          logger.info({ 
-            url: new URL(url).searchParams.get("url"),
-            strategy: new URL(url).searchParams.get("strategy"),
-            responseSize: JSON.stringify(data).length 
-          }, "PSI request successful");
-          
-          return data;
-        } catch (error) {
-          clearTimeout(timeoutId);
-          const errorMessage = error instanceof Error ? error.message : "Unknown error";
-          logger.warn({ attempt, error: this.redact(errorMessage) }, "PSI request failed");
-          throw error;
+  // Upstream call, or its recording when PSI_MODE is record or replay.
+  private fetchUpstream<T>(req: UpstreamRequest): Promise<UpstreamResponse<T>> {
+    const send = (request: UpstreamRequest) => this.upstream.request<T>(request);
+    return this.fixtures ? this.fixtures.request(req, send) : send(req);
+  }
+
+  /**
+   * Concurrent identical requests (same cache key) share one upstream call, so
+   * parallel tools neither spend quota twice nor see different numbers. Each
+   * caller can still cancel its own wait; the upstream call is aborted only
+   * once every caller waiting on it has gone.
+   */
+  private coalesce<T>(key: string, signal: AbortSignal | undefined, fetcher: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    throwIfCancelled(signal);
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      const controller = new AbortController();
+      const promise = fetcher(controller.signal).finally(() => {
+        if (this.inFlight.get(key) === pending) this.inFlight.delete(key);
+      });
+      // Callers get the rejection; this only stops an abandoned call from going unhandled
+      promise.catch(() => {});
+      pending = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, pending);
+    }
+
+    const shared = pending;
+    shared.waiters++;
+    return new Promise<T>((resolve, reject) => {
+      let left = false;
+      const leave = () => {
+        if (left) return false;
+        left = true;
+        signal?.removeEventListener("abort", onAbort);
+        if (--shared.waiters === 0 && signal?.aborted) {
+          // Nobody is waiting any more: stop the call and let the next caller start afresh
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+          shared.controller.abort();
         }
-      },
-      {
-        retries: this.retryAttempts,
-        onFailedAttempt: (error) => {
-          if (error.name === "ClientError") {
-            throw error; // Don't retry client errors
-          }
-        },
-        factor: 2,
-        minTimeout: 1000,
-        maxTimeout: 10000,
-      }
-    );
+        return true;
+      };
+      const onAbort = () => {
+        if (leave()) reject(new CancelledError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      shared.promise.then(
+        (value) => leave() && resolve(value as T),
+        (error) => leave() && reject(error)
+      );
+    });
+  }
+
+  private async makeRequest(url: string, correlationId: string, signal?: AbortSignal): Promise<any> {
+    const { data } = await this.fetchUpstream<PageSpeedInsightsResponse>({ api: "psi", url, correlationId, signal });
+    // PSI sometimes answers 200 with a Lighthouse runtimeError and no usable audits
+    const runtimeError = data?.lighthouseResult?.runtimeError;
+    if (runtimeError?.code && runtimeError.code !== "NO_ERROR") {
+      const message = `Lighthouse returned error: ${runtimeError.code}${runtimeError.message ? `. ${runtimeError.message}` : ""}`;
+      const kind = parsePageFailure(`${runtimeError.code} ${runtimeError.message ?? ""}`) ?? "unreachable";
+      throw new UnreachablePageError(this.redact(message), "psi", 200, kind);
+    }
+    return data;
   }
 
   async analyzePageSpeed(
     input: AnalyzePageSpeedInput, 
     correlationId: string,
-    onRunComplete?: () => void
+    options: RequestOptions = {}
   ): Promise<PageSpeedInsightsResponse> {
+    const plan = runPlan(input);
+    const strategies: AnalyzePageSpeedInput[] =
+      input.strategy === "both"
+        ? [{ ...input, strategy: "mobile" }, { ...input, strategy: "desktop" }]
+        : [input];
+    // Adaptive runs that stop early shrink the total they were counted in
+    let total = plan.maxRuns * strategies.length;
+    options.progress?.setTotal(total);
+    const skipped = (runs: number) => {
+      total -= runs;
+      options.progress?.setTotal(total);
+    };
+
+    if (plan.maxRuns > 1) {
+      const [result, desktop] = await this.multirun(strategies, plan, correlationId, options, skipped);
+      return desktop ? { ...result, desktopResult: desktop } : result;
+    }
     if (input.strategy === "both") {
-      const mobile = await this.analyzePageSpeed({ ...input, strategy: "mobile" }, correlationId, onRunComplete);
-      const desktop = await this.analyzePageSpeed({ ...input, strategy: "desktop" }, correlationId, onRunComplete);
-      return {
-        ...mobile,
-        desktopResult: desktop,
-        // ponytail: report renders desktopResult via its own multirun block; no deep merge
-      };
+      const mobile = await this.analyzeOnce(strategies[0], correlationId, options);
+      const desktop = await this.analyzeOnce(strategies[1], correlationId, options);
+      return { ...mobile, desktopResult: desktop };
     }
+    return this.analyzeOnce(input, correlationId, options);
+  }
+
+  private psiUrl(input: AnalyzePageSpeedInput): string {
+    const url = new URL(`${this.psiBaseUrl}/runPagespeed`);
+    url.searchParams.set("url", input.url);
+    url.searchParams.set("strategy", input.strategy);
+    url.searchParams.set("locale", input.locale);
+    
+    if (input.category && input.category.length > 0) {
+      input.category.forEach((cat: string) => url.searchParams.append("category", cat));
+    }
+    return url.toString();
+  }
+
+  // A single analysis of one strategy, from the cache when freshness allows.
+  private async analyzeOnce(
+    input: AnalyzePageSpeedInput,
+    correlationId: string,
+    { signal, progress, onCacheStatus }: RequestOptions
+  ): Promise<PageSpeedInsightsResponse> {
     const logger = createRequestLogger(correlationId, "analyze-page-speed");
-    const runs = Math.max(1, Math.min(5, input.runs ?? 1));
+    const cacheKey = createPSICacheKey(
+      input.url,
+      input.strategy,
+      input.category || ["performance"],
+      input.locale
+    );
+    const url = this.psiUrl(input);
     
-    return this.limiter(async () => {
-      const cacheKey = createPSICacheKey(
-        input.url,
-        input.strategy,
-        input.category || ["performance"],
-        input.locale
-      );
-      
-      // Try cache first (only for single-run requests: a multirun exists to
-      // measure fresh, replaying our own cache would defeat it)
-      if (runs === 1) {
-        const cached = cache.get<PageSpeedInsightsResponse>(cacheKey);
-        if (cached) {
-          logger.debug("Cache hit for PSI request");
-          return cached;
+    const fetchFresh = (shared: AbortSignal) =>
+      this.limiter(async () => {
+        // May have been cancelled while queued behind other requests
+        throwIfCancelled(shared);
+        logger.info({ url: input.url, strategy: input.strategy, runs: 1 }, "Starting PSI analysis");
+        const data = await this.makeRequest(url, correlationId, shared);
+        cache.set(cacheKey, data, this.cacheTTL);
+        return data as PageSpeedInsightsResponse;
+      });
+    
+    throwIfCancelled(signal);
+    const freshness = input.freshness ?? "prefer-cache";
+    if (freshness !== "force-refresh") {
+      const cached = cache.get<PageSpeedInsightsResponse>(cacheKey);
+      if (cached) {
+        logger.debug({ freshness }, "Cache hit for PSI request");
+        const revalidating = freshness === "revalidate-in-background";
+        if (revalidating) {
+          // Not tied to this call's signal: the refresh is for whoever asks next
+          this.coalesce(cacheKey, undefined, fetchFresh).catch((error) => {
+            logger.warn({ error: this.redact(error instanceof Error ? error.message : String(error)) }, "Background revalidation failed");
+          });
         }
+        onCacheStatus?.({ strategy: input.strategy, servedFromCache: true, revalidating });
+        progress?.advance(`${input.strategy} analysis served from cache`);
+        return cached;
       }
-      
-      logger.info({ url: input.url, strategy: input.strategy, runs }, "Starting PSI analysis");
-      
-      const url = new URL("https://www.googleapis.com/pagespeedonline/v5/runPagespeed");
-      url.searchParams.set("url", input.url);
-      url.searchParams.set("key", this.apiKey);
-      url.searchParams.set("strategy", input.strategy);
-      url.searchParams.set("locale", input.locale);
-      
-      if (input.category && input.category.length > 0) {
-        input.category.forEach((cat: string) => url.searchParams.append("category", cat));
+      if (freshness === "cached-only") {
+        throw new CacheMissError(`No cached ${input.strategy} analysis for ${input.url} (freshness "cached-only" never calls the API)`);
       }
-      
-      const data = await this.makeRequest(url.toString(), correlationId);
-      
-      if (runs === 1) {
-        cache.set(cacheKey, data, this.cacheTTL);
-        return data as PageSpeedInsightsResponse;
+    }
+    
+    const data = await this.coalesce(cacheKey, signal, fetchFresh);
+    onCacheStatus?.({ strategy: input.strategy, servedFromCache: false, revalidating: false });
+    progress?.advance(`${input.strategy} analysis complete`);
+    return data;
+  }
+
+  /**
+   * Multirun: collect N analyses per strategy, waiting out Google's ~1min
+   * re-analysis window between rounds so runs are genuinely distinct. With
+   * strategy "both", each round runs mobile and desktop inside the same
+   * window, so two strategies take no longer than one. Adaptive sampling
+   * stops a strategy once its score is precise enough. The cache is not
+   * used: a multirun exists to measure fresh, replaying our own cache would
+   * defeat it.
+   */
+  private async multirun(
+    strategies: AnalyzePageSpeedInput[],
+    { runs, maxRuns, targetPrecision }: RunPlan,
+    correlationId: string,
+    { signal, progress, onCacheStatus }: RequestOptions,
+    skipped: (runs: number) => void
+  ): Promise<PageSpeedInsightsResponse[]> {
+    const logger = createRequestLogger(correlationId, "analyze-page-speed");
+    const options = { excludeOutliers: strategies[0].exclude_outliers };
+    const sampled = strategies.map((input) => ({ input, url: this.psiUrl(input), all: [] as PageSpeedInsightsResponse[], done: false }));
+
+    return this.limiter(async () => {
+      throwIfCancelled(signal);
+      for (const { input, url, all } of sampled) {
+        logger.info({ url: input.url, strategy: input.strategy, runs, maxRuns, targetPrecision }, "Starting PSI analysis");
+        all.push(await this.makeRequest(url, correlationId, signal) as PageSpeedInsightsResponse);
+        progress?.advance(`${input.strategy} run 1/${maxRuns} complete`);
       }
-      
-      // Multirun: collect N analyses, wait out Google's ~1min re-analysis
-      // window between calls so runs are genuinely distinct.
-      const all: PageSpeedInsightsResponse[] = [data as PageSpeedInsightsResponse];
-      onRunComplete?.();
-      for (let i = 1; i < runs; i++) {
-        await new Promise((r) => setTimeout(r, 65_000));
-        try {
-          all.push(await this.makeRequest(url.toString(), correlationId) as PageSpeedInsightsResponse);
-          onRunComplete?.();
-        } catch (e) {
-          logger.warn({ run: i + 1, error: e instanceof Error ? e.message : String(e) }, "Run failed, continuing with fewer");
+
+      for (let i = 1; i < maxRuns; i++) {
+        if (targetPrecision !== undefined && i >= runs) {
+          for (const strategy of sampled.filter((s) => !s.done)) {
+            const decision = samplingDecision(summariseMultirun(strategy.all, options), targetPrecision);
+            if (decision.stop) {
+              logger.info({ strategy: strategy.input.strategy, runs: i, ciWidth: decision.ciWidth }, "Score precise enough, stopping early");
+              strategy.done = true;
+              skipped(maxRuns - i);
+            }
+          }
+        }
+        const active = sampled.filter((s) => !s.done);
+        if (active.length === 0) break;
+
+        progress?.note(`${active.map((s) => s.input.strategy).join(" + ")} run ${i + 1}/${maxRuns}, waiting for re-analysis window`);
+        // Recorded runs need no waiting for Google
+        await sleep(this.fixtures?.replaying ? 0 : 65_000, signal);
+        for (const { input, url, all } of active) {
+          try {
+            all.push(await this.makeRequest(url, correlationId, signal) as PageSpeedInsightsResponse);
+            progress?.advance(`${input.strategy} run ${i + 1}/${maxRuns} complete`);
+          } catch (e) {
+            if (isCancelled(e)) throw e;
+            logger.warn({ strategy: input.strategy, run: i + 1, error: e instanceof Error ? e.message : String(e) }, "Run failed, continuing with fewer");
+            progress?.advance(`${input.strategy} run ${i + 1}/${maxRuns} failed, continuing with fewer`);
+          }
         }
       }
-      (all[0] as any).multirun = summariseMultirun(all);
-      return all[0];
+
+      return sampled.map(({ input, all }) => {
+        const summary = summariseMultirun(all, options);
+        if (targetPrecision !== undefined) {
+          const decision = samplingDecision(summary, targetPrecision);
+          summary.adaptive = {
+            targetPrecision,
+            minRuns: runs,
+            maxRuns,
+            ciWidth: decision.ciWidth,
+            tbtNoisy: decision.tbtNoisy,
+            stoppedBecause: decision.stop ? "precise" : "max-runs",
+          };
+        }
+        all[0].multirun = summary;
+        onCacheStatus?.({ strategy: input.strategy, servedFromCache: false, revalidating: false });
+        return all[0];
+      });
     });
   }
 
-  async getCruxData(input: CruxSummaryInput, correlationId: string): Promise<any> {
+  async getCruxData(input: CruxSummaryInput, correlationId: string, { signal }: RequestOptions = {}): Promise<any> {
     const logger = createRequestLogger(correlationId, "crux-summary");
     
-    return this.limiter(async () => {
-      const cacheKey = createCruxCacheKey(input.url, input.formFactor);
-      
-      const cached = cache.get(cacheKey);
-      if (cached) {
-        logger.debug("Cache hit for CrUX request");
-        return cached;
-      }
-      
+    throwIfCancelled(signal);
+    const cacheKey = createCruxCacheKey(input.url, input.formFactor);
+    
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      logger.debug("Cache hit for CrUX request");
+      return cached;
+    }
+    
+    return this.coalesce(cacheKey, signal, (shared) => this.limiter(async () => {
+      throwIfCancelled(shared);
       logger.info({ url: input.url }, "Fetching CrUX data");
       
-      const requestBody = {
-        url: input.url,
-        ...(input.formFactor && { formFactor: input.formFactor }),
-      };
-      
-      const url = `https://chromeuxreport.googleapis.com/v1/records:queryRecord?key=${this.apiKey}`;
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-      
-      try {
-        const response = await fetch(url, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": USER_AGENT,
-          },
-          body: JSON.stringify(requestBody),
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`CrUX API error: ${response.status} ${response.statusText} - ${errorText}`);
-        }
-        
-        const data = await response.json();
-        cache.set(cacheKey, data, this.cacheTTL);
-        
-        logger.info({ url: input.url }, "CrUX request successful");
-        return data;
-      } catch (error) {
-        clearTimeout(timeoutId);
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        logger.warn({ error: this.redact(errorMessage) }, "CrUX request failed");
-        throw error;
-      }
-    });
+      const { data } = await this.fetchUpstream({
+        api: "crux",
+        url: `${this.cruxBaseUrl}/records:queryRecord`,
+        body: {
+          url: input.url,
+          ...(input.formFactor && { formFactor: input.formFactor }),
+        },
+        correlationId,
+        signal: shared,
+      });
+      cache.set(cacheKey, data, this.cacheTTL);
+      return data;
+    }));
   }
 
-  async getOriginCruxData(input: OriginCruxInput, correlationId: string): Promise<any> {
+  async getOriginCruxData(input: OriginCruxInput, correlationId: string, { signal }: RequestOptions = {}): Promise<any> {
     const logger = createRequestLogger(correlationId, "origin-crux");
 
-    return this.limiter(async () => {
-      const cacheKey = createCruxCacheKey(input.origin, input.formFactor || "ALL");
+    throwIfCancelled(signal);
+    const cacheKey = createCruxCacheKey(input.origin, input.formFactor || "ALL");
 
-      const cached = cache.get(cacheKey);
-      if (cached) {
-        logger.debug("Cache hit for origin CrUX request");
-        return cached;
-      }
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      logger.debug("Cache hit for origin CrUX request");
+      return cached;
+    }
 
+    return this.coalesce(cacheKey, signal, (shared) => this.limiter(async () => {
+      throwIfCancelled(shared);
       logger.info({ origin: input.origin }, "Fetching origin CrUX data");
 
       const requestBody: Record<string, unknown> = { origin: input.origin };
       if (input.formFactor) requestBody.formFactor = input.formFactor;
 
-      const url = `https://chromeuxreport.googleapis.com/v1/records:queryRecord?key=${this.apiKey}`;
+      const { data } = await this.fetchUpstream({
+        api: "crux",
+        url: `${this.cruxBaseUrl}/records:queryRecord`,
+        body: requestBody,
+        correlationId,
+        signal: shared,
+      });
+      cache.set(cacheKey, data, this.cacheTTL);
+      return data;
+    }));
+  }
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      try {
-        const response = await fetch(url, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "User-Agent": USER_AGENT,
-          },
-          body: JSON.stringify(requestBody),
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`CrUX API error: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+  // Weekly collection periods for a page or an origin (records:queryHistoryRecord).
+  async getCruxHistory(
+    input: Pick<CruxHistoryInput, "url" | "origin" | "formFactor" | "periods">,
+    correlationId: string,
+    { signal }: RequestOptions = {}
+  ): Promise<CruxHistoryRecord> {
+    const logger = createRequestLogger(correlationId, "crux-history");
+    const target = input.origin ? { origin: input.origin } : { url: input.url };
 
-        const data = await response.json();
-        cache.set(cacheKey, data, this.cacheTTL);
+    throwIfCancelled(signal);
+    const cacheKey = createCruxHistoryCacheKey(input.origin ?? input.url ?? "", input.formFactor, input.periods);
 
-        logger.info({ origin: input.origin }, "Origin CrUX request successful");
-        return data;
-      } catch (error) {
-        clearTimeout(timeoutId);
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        logger.warn({ error: this.redact(errorMessage) }, "Origin CrUX request failed");
-        throw error;
-      }
-    });
+    const cached = cache.get<CruxHistoryRecord>(cacheKey);
+    if (cached) {
+      logger.debug("Cache hit for CrUX history request");
+      return cached;
+    }
+
+    return this.coalesce(cacheKey, signal, (shared) => this.limiter(async () => {
+      throwIfCancelled(shared);
+      logger.info({ ...target, periods: input.periods }, "Fetching CrUX history");
+
+      const requestBody: Record<string, unknown> = { ...target, collectionPeriodCount: input.periods };
+      if (input.formFactor) requestBody.formFactor = input.formFactor;
+
+      // The History API answers 404 when the page or origin is below the
+      // traffic threshold: that is "no data", not a failure.
+      const { status, data } = await this.fetchUpstream<CruxHistoryRecord>({
+        api: "crux",
+        url: `${this.cruxBaseUrl}/records:queryHistoryRecord`,
+        body: requestBody,
+        correlationId,
+        signal: shared,
+        acceptStatus: [404],
+      });
+      if (status === 404) logger.info(target, "No CrUX history for target");
+
+      const record = data ?? {};
+      cache.set(cacheKey, record, this.cacheTTL);
+      return record;
+    }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+import type { ProgressNotificationParams, ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Progress for one tool call, created per request and passed explicitly to
+ * the handler and the client, so parallel calls each report their own count.
+ * Work is counted in units that mean something to the caller: PSI runs for an
+ * analysis (runs × strategies), URLs for a batch.
+ */
+export interface ProgressReporter {
+  /** Units of work the call will do; progress so far is kept. */
+  setTotal(total: number): void;
+  /** One unit of work finished. */
+  advance(message?: string): void;
+  /** Status change without finished work, e.g. a wait between runs. */
+  note(message: string): void;
+}
+
+type SendProgress = (params: ProgressNotificationParams) => Promise<void>;
+
+// MCP requires `progress` to grow with every notification. Clients that opt
+// in (the SDK's resetTimeoutOnProgress) restart their request timeout on each
+// one; a single PSI call blocks for tens of seconds and a multirun sleeps 65s
+// between runs, so on this interval progress creeps a fraction further
+// towards the next whole unit, never reaching it.
+const KEEPALIVE_MS = 10_000;
+
+/** Sends `notifications/progress` for one request's progress token. */
+export class McpProgressReporter implements ProgressReporter {
+  private completed = 0;
+  // Share of the current unit reported by keepalives and notes; always below 1
+  private fraction = 0;
+  private sent = -1;
+  private total?: number;
+  private message?: string;
+  private keepalive: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly progressToken: ProgressToken,
+    private readonly send: SendProgress
+  ) {
+    this.keepalive = setInterval(() => this.creep(), KEEPALIVE_MS);
+  }
+
+  /** Sent with the next notification; only the first call sends one itself. */
+  setTotal(total: number): void {
+    this.total = total;
+    this.flush();
+  }
+
+  advance(message?: string): void {
+    this.completed++;
+    this.fraction = 0;
+    if (message !== undefined) this.message = message;
+    this.flush();
+  }
+
+  note(message: string): void {
+    this.message = message;
+    this.creep();
+  }
+
+  close(): void {
+    clearInterval(this.keepalive);
+  }
+
+  // Halfway to the next unit, so any number of nudges stays below it
+  private creep(): void {
+    this.fraction += (1 - this.fraction) / 2;
+    this.flush();
+  }
+
+  private flush(): void {
+    const progress = this.completed + this.fraction;
+    // Unchanged, or too close to the next unit to tell apart from it
+    if (progress <= this.sent || progress >= this.completed + 1) return;
+    this.sent = progress;
+    this.send({
+      progressToken: this.progressToken,
+      progress,
+      ...(this.total !== undefined && { total: this.total }),
+      ...(this.message !== undefined && { message: this.message }),
+    }).catch(() => {
+      /* client gone; the main call will fail anyway */
+    });
+  }
+}
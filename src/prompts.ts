@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { UrlSchema } from "./schemas.js";
+
+/**
+ * Curated investigation workflows, published through the MCP `prompts`
+ * capability. Each one walks the model through the existing tools in the
+ * order an experienced engineer would use them, so a "why is LCP slow"
+ * question gets the same investigation whoever asks it.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const PromptStrategySchema = z.enum(["mobile", "desktop"]).default("mobile");
+
+const urlArgument: PromptArgument = { name: "url", description: "The page to investigate", required: true };
+const strategyArgument: PromptArgument = {
+  name: "strategy",
+  description: "\"mobile\" or \"desktop\" (default: mobile)",
+  required: false,
+};
+
+const PageArgsSchema = z.object({ url: UrlSchema, strategy: PromptStrategySchema });
+
+const REUSE_NOTE =
+  "Every analysis tool returns an analysis ID. Pass it as `analysisId` to the follow-up get_* tools " +
+  "instead of the url, so all steps look at the same Lighthouse run and no extra quota is spent.";
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "diagnose-slow-lcp",
+    description: "Find out why Largest Contentful Paint is slow and what to fix first",
+    arguments: [urlArgument, strategyArgument],
+    render(args) {
+      const { url, strategy } = PageArgsSchema.parse(args);
+      return [
+        `Diagnose the Largest Contentful Paint (LCP) of ${url} (${strategy}).`,
+        "",
+        REUSE_NOTE,
+        "",
+        `1. Call \`full_report\` with url "${url}" and strategy "${strategy}". Note lab LCP, field (CrUX) LCP p75 and the analysis ID. If field data says LCP is good, say so before going further.`,
+        "2. Call `get_element_analysis` with that analysisId. Identify the LCP element; flag it if it is lazy-loaded.",
+        "3. Call `get_render_blocking_details` with the analysisId. List the CSS/JS that delays first render and the longest critical request chain.",
+        "4. Call `get_network_analysis` with the analysisId. Check server latency (TTFB) and when the LCP resource starts downloading and how large it is.",
+        "5. If the LCP element is an image, call `get_image_optimization_details` with the analysisId for size and format savings.",
+        "",
+        "Break LCP into its parts — server response, resource load delay, resource load time, render delay — and say which dominates.",
+        "Finish with at most five fixes ordered by expected LCP gain, each naming the exact element or resource it applies to.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "triage-cls-regression",
+    description: "Track down which elements cause layout shifts and how to stop them",
+    arguments: [urlArgument, strategyArgument],
+    render(args) {
+      const { url, strategy } = PageArgsSchema.parse(args);
+      return [
+        `Triage the Cumulative Layout Shift (CLS) of ${url} (${strategy}).`,
+        "",
+        REUSE_NOTE,
+        "",
+        `1. Call \`crux_summary\` with url "${url}" to see whether real users experience the shift (CLS p75 above 0.1 is failing). If there is no page-level data, use \`get_origin_crux\`.`,
+        `2. Call \`analyze_page_speed\` with url "${url}" and strategy "${strategy}". Record lab CLS and the analysis ID.`,
+        "3. Call `get_element_analysis` with the analysisId. List every shifting element with its shift score and selector.",
+        "4. Call `get_third_party_impact` with the analysisId. Late-injected ads, embeds and consent banners are common causes.",
+        "5. Call `get_visual_analysis` with the analysisId and use the filmstrip timings to say when the shifts happen.",
+        "",
+        "Lab CLS only covers page load; if field CLS is much worse than lab CLS, the shifts likely happen after load (infinite scroll, late widgets) and say so.",
+        "For each shifting element give the concrete fix: reserved dimensions, aspect-ratio, font-display strategy or a placeholder for injected content.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "audit-before-release",
+    description: "Pre-release gate: measure the page, compare against the saved baseline and list blockers",
+    arguments: [urlArgument, strategyArgument],
+    render(args) {
+      const { url, strategy } = PageArgsSchema.parse(args);
+      return [
+        `Run a pre-release performance audit of ${url} (${strategy}).`,
+        "",
+        REUSE_NOTE,
+        "",
+        `1. Call \`compare_baseline\` with url "${url}", strategy "${strategy}" and runs 3. If it reports "Baseline recorded", there was no earlier baseline: say that this run becomes the reference and skip the verdicts.`,
+        "   Otherwise report only the metrics with a verdict, quoting the guaranteed difference, not the median.",
+        `2. Call \`get_full_audit\` with url "${url}" and strategy "${strategy}" for accessibility, best-practices and SEO issues.`,
+        `3. Call \`get_recommendations\` with url "${url}" and strategy "${strategy}".`,
+        "",
+        "Produce a release checklist: regressions with a verdict are blockers; failing Core Web Vitals are warnings; everything else is follow-up work.",
+        "Do not call a difference a regression when compare_baseline gave no verdict for it.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "compare-with-competitor",
+    description: "Benchmark a page against a competitor's page on lab and field data",
+    arguments: [
+      urlArgument,
+      { name: "competitor_url", description: "The competitor page to compare against", required: true },
+      strategyArgument,
+    ],
+    render(args) {
+      const { url, competitor_url, strategy } = PageArgsSchema.extend({ competitor_url: UrlSchema }).parse(args);
+      return [
+        `Compare ${url} with the competitor page ${competitor_url} (${strategy}).`,
+        "",
+        REUSE_NOTE,
+        "",
+        `1. Call \`compare_pages\` with urlA "${url}", urlB "${competitor_url}" and strategy "${strategy}". It returns an analysis ID for each page.`,
+        `2. Call \`crux_summary\` for both URLs to compare what real users experience; fall back to \`get_origin_crux\` when a page has no data.`,
+        "3. For each metric where the competitor wins, call the matching drill-down with our page's analysisId: `get_element_analysis` for LCP/CLS, `get_javascript_analysis` for TBT, `get_network_analysis` for transfer size and TTFB.",
+        "",
+        "A single lab run is noisy: treat score differences under ~10 points as a tie unless field data agrees.",
+        "Summarise where we lead, where we trail, and the two or three changes most likely to close the gap.",
+      ].join("\n");
+    },
+  },
+];
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return PROMPTS.find((p) => p.name === name);
+}
@@ -0,0 +1,56 @@
+import type { Agent } from "http";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import type { Environment } from "./env.js";
+
+/**
+ * Outgoing requests honour the usual HTTPS_PROXY / HTTP_PROXY / NO_PROXY
+ * settings, so the server works behind a corporate egress proxy: https://
+ * base URLs are tunnelled through HTTPS_PROXY, plain http:// ones (a local
+ * mock or recorder) go through HTTP_PROXY.
+ */
+
+export type ProxySettings = Pick<Environment, "HTTPS_PROXY" | "HTTP_PROXY" | "NO_PROXY">;
+
+/**
+ * NO_PROXY as curl reads it: comma- or space-separated hosts, each matching
+ * itself and its subdomains (a leading "." or "*." is optional), an optional
+ * ":port", and "*" for everything.
+ */
+export function bypassesProxy(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) return false;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === "*") return true;
+      const [, name, entryPort] = entry.toLowerCase().match(/^(?:\*?\.)?(.+?)(?::(\d+))?$/) ?? [];
+      if (!name || (entryPort && entryPort !== port)) return false;
+      return host === name || host.endsWith(`.${name}`);
+    });
+}
+
+export class ProxyAgents {
+  // One agent per proxy keeps its connection pool across requests
+  private readonly agents = new Map<string, Agent>();
+
+  constructor(private readonly settings: ProxySettings) {}
+
+  /** The agent for a request to `url`, or undefined to connect directly. */
+  for(url: URL): Agent | undefined {
+    const https = url.protocol === "https:";
+    const proxy = https ? this.settings.HTTPS_PROXY : this.settings.HTTP_PROXY;
+    if (!proxy || bypassesProxy(url, this.settings.NO_PROXY)) {
+      return undefined;
+    }
+    const key = `${url.protocol}${proxy}`;
+    let agent = this.agents.get(key);
+    if (!agent) {
+      agent = https ? new HttpsProxyAgent(proxy) : new HttpProxyAgent(proxy);
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+}
@@ -0,0 +1,280 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { mkdir, open, rm, stat } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { sleep, throwIfCancelled } from "./cancellation.js";
+import { getEnv } from "./env.js";
+import { QuotaError, type RateLimitError } from "./errors.js";
+import { getLogger } from "./logger.js";
+
+const logger = getLogger();
+
+/**
+ * Client-side budgets for the Google APIs, one limiter per API (PSI and CrUX
+ * have separate quotas). A token bucket paces requests to the per-minute
+ * budget, so a large batch slows down instead of collecting 429s halfway
+ * through; a 429 pauses every caller of that API for as long as Google asks.
+ *
+ * The per-day budget is counted in a small JSON file so it survives restarts
+ * and is shared by processes pointing at the same file; a lock file next to it
+ * keeps their updates from overwriting each other. What is counted is logical
+ * requests: retries and key rotations within one request are not charged again.
+ * Google resets daily quotas at midnight Pacific time, so that is when the
+ * count starts over.
+ */
+
+export type Api = "psi" | "crux";
+
+export interface RateLimitConfig {
+  perMinute: number;
+  /** Unset: no daily budget and nothing persisted. */
+  perDay?: number;
+}
+
+// Longest server-indicated backoff worth waiting out inside one tool call.
+export const MAX_RETRY_AFTER_MS = 5 * 60_000;
+
+// Quota days follow Google's reset at midnight Pacific time.
+export function quotaDay(date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: "America/Los_Angeles" }).format(date);
+}
+
+/** Milliseconds until the next midnight Pacific time. */
+export function msUntilQuotaReset(now = Date.now()): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: "America/Los_Angeles",
+    hourCycle: "h23",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const elapsed = ((part("hour") * 60 + part("minute")) * 60 + part("second")) * 1000 + (now % 1000);
+  return 24 * 3_600_000 - elapsed;
+}
+
+interface UsageFile {
+  day: string;
+  counts: Partial<Record<Api, number>>;
+  exhausted: Api[];
+}
+
+// A lock older than this was left by a process that died holding it.
+const LOCK_STALE_MS = 5_000;
+// Give up on the lock after about a second: a slightly off count beats a stuck request.
+const LOCK_ATTEMPTS = 100;
+const LOCK_RETRY_MS = 10;
+
+/** Requests made today, per API, read and written through on every change. */
+export class DailyUsage {
+  constructor(private readonly file: string) {}
+
+  // Every read-modify-write holds `<file>.lock`, created exclusively, so
+  // concurrent servers add to each other's counts instead of replacing them.
+  // Waiting for the lock sleeps, so other sessions keep running meanwhile.
+  private async locked<T>(update: () => T): Promise<T> {
+    const lock = `${this.file}.lock`;
+    let held = false;
+    try {
+      await mkdir(dirname(this.file), { recursive: true });
+      for (let attempt = 0; attempt < LOCK_ATTEMPTS && !held; attempt++) {
+        try {
+          await (await open(lock, "wx")).close();
+          held = true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+          const info = await stat(lock).catch(() => undefined);
+          if (info && Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+            await rm(lock, { force: true });
+          } else if (info) {
+            await sleep(LOCK_RETRY_MS);
+          }
+        }
+      }
+      if (!held) logger.warn({ file: this.file }, "API usage file stayed locked; updating without the lock");
+    } catch (error) {
+      logger.warn({ file: this.file, error: (error as Error).message }, "Failed to lock API usage file");
+    }
+    try {
+      return update();
+    } finally {
+      if (held) await rm(lock, { force: true });
+    }
+  }
+
+  private load(): UsageFile {
+    const today = quotaDay();
+    try {
+      const data = JSON.parse(readFileSync(this.file, "utf8")) as UsageFile;
+      if (data.day === today) return data;
+    } catch {
+      // First run, or an unreadable file: start counting from zero
+    }
+    return { day: today, counts: {}, exhausted: [] };
+  }
+
+  private save(data: UsageFile): void {
+    const temp = `${this.file}.${process.pid}.tmp`;
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(temp, JSON.stringify(data));
+      renameSync(temp, this.file);
+    } catch (error) {
+      logger.warn({ file: this.file, error: (error as Error).message }, "Failed to persist API usage");
+    }
+  }
+
+  count(api: Api): number {
+    return this.load().counts[api] ?? 0;
+  }
+
+  isExhausted(api: Api): boolean {
+    return this.load().exhausted.includes(api);
+  }
+
+  increment(api: Api): Promise<number> {
+    return this.locked(() => {
+      const data = this.load();
+      data.counts[api] = (data.counts[api] ?? 0) + 1;
+      this.save(data);
+      return data.counts[api];
+    });
+  }
+
+  markExhausted(api: Api): Promise<void> {
+    return this.locked(() => {
+      const data = this.load();
+      if (!data.exhausted.includes(api)) data.exhausted.push(api);
+      this.save(data);
+    });
+  }
+}
+
+export const API_LABELS: Record<Api, string> = { psi: "PageSpeed Insights", crux: "Chrome UX Report" };
+
+export class RateLimiter {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  // Without a usage file, a daily exhaustion reported by Google is remembered in memory
+  private exhaustedDay: string | null = null;
+
+  constructor(
+    private readonly api: Api,
+    private readonly config: RateLimitConfig,
+    private readonly usage?: DailyUsage
+  ) {
+    this.tokens = config.perMinute;
+  }
+
+  private refill(now: number): void {
+    const rate = this.config.perMinute / 60_000;
+    this.tokens = Math.min(this.config.perMinute, this.tokens + (now - this.refilledAt) * rate);
+    this.refilledAt = now;
+  }
+
+  private checkDailyBudget(): void {
+    const label = API_LABELS[this.api];
+    if (this.exhaustedDay === quotaDay() || this.usage?.isExhausted(this.api)) {
+      throw new QuotaError(`${label} daily quota is exhausted; it resets at midnight Pacific time`, this.api);
+    }
+    const { perDay } = this.config;
+    if (perDay !== undefined && this.usage && this.usage.count(this.api) >= perDay) {
+      throw new QuotaError(`${label} daily budget of ${perDay} requests is used up; it resets at midnight Pacific time`, this.api);
+    }
+  }
+
+  /**
+   * Wait for a request slot. Rejects with QuotaError when today's budget is
+   * spent. Pass `charge: false` for a retry of a request already counted.
+   */
+  async acquire(signal?: AbortSignal, charge = true): Promise<void> {
+    this.checkDailyBudget();
+    for (;;) {
+      throwIfCancelled(signal);
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now, signal);
+        continue;
+      }
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        break;
+      }
+      const wait = Math.ceil((1 - this.tokens) / (this.config.perMinute / 60_000));
+      logger.debug({ api: this.api, wait }, "Rate limit reached, waiting for a slot");
+      await sleep(wait, signal);
+    }
+    if (charge && this.config.perDay !== undefined) {
+      await this.usage?.increment(this.api);
+    }
+  }
+
+  /** Hold every request to this API until `ms` from now. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    logger.info({ api: this.api, ms }, "Rate limited upstream, pausing requests");
+  }
+
+  /**
+   * Google says the daily quota is gone: fail fast until it resets. This
+   * process stops at once; the returned promise settles when other processes
+   * sharing the usage file will see it too.
+   */
+  async exhaustForToday(): Promise<void> {
+    this.exhaustedDay = quotaDay();
+    await this.usage?.markExhausted(this.api);
+  }
+
+  /**
+   * Called after a 429 before the next attempt: pauses the API for as long as
+   * Google asked (exponential backoff when it did not say). Throws QuotaError
+   * when the daily quota is gone or the wait is too long for one tool call.
+   */
+  backOff(error: RateLimitError, attempt: number): void {
+    const label = API_LABELS[this.api];
+    if (error.daily) {
+      void this.exhaustForToday();
+      throw new QuotaError(`${label} daily quota is exhausted; it resets at midnight Pacific time`, this.api);
+    }
+    const delay = error.retryAfterMs ?? Math.min(60_000, 5_000 * 2 ** (attempt - 1));
+    if (delay > MAX_RETRY_AFTER_MS) {
+      throw new QuotaError(`${label} quota is exhausted; Google asked to wait ${Math.ceil(delay / 60_000)} minutes`, this.api);
+    }
+    this.pause(delay);
+  }
+}
+
+export type RateLimiters = Record<Api, RateLimiter>;
+
+export function createRateLimiters(): RateLimiters {
+  const env = getEnv();
+  // Only a daily budget needs counting; without one nothing is written to disk
+  const budgeted = env.PSI_REQUESTS_PER_DAY !== undefined || env.CRUX_REQUESTS_PER_DAY !== undefined;
+  const usage = budgeted
+    ? new DailyUsage(env.USAGE_FILE || join(homedir(), ".pagespeed-mcp", "usage.json"))
+    : undefined;
+  return {
+    psi: new RateLimiter("psi", { perMinute: env.PSI_REQUESTS_PER_MINUTE, perDay: env.PSI_REQUESTS_PER_DAY }, usage),
+    crux: new RateLimiter("crux", { perMinute: env.CRUX_REQUESTS_PER_MINUTE, perDay: env.CRUX_REQUESTS_PER_DAY }, usage),
+  };
+}
+
+/** 429 or RESOURCE_EXHAUSTED (which Google sometimes sends with another status). */
+export function isRateLimited(status: number, body: string): boolean {
+  return status === 429 || body.includes("RESOURCE_EXHAUSTED");
+}
+
+export function isDailyQuota(body: string): boolean {
+  return /per day/i.test(body);
+}
+
+/** Retry-After as delta-seconds or an HTTP date; null when absent or unparseable. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
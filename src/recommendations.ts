@@ -1,4 +1,5 @@
 import type { PageSpeedInsightsResponse } from "./types.js";
+import type { MultirunRun } from "./multirun.js";
 
 export interface Recommendation {
   id: string;
@@ -293,10 +294,10 @@ export class PerformanceRecommendationsEngine {
     // another is the instrument moving, not a fact about the page. Only keep
     // faults that failed in EVERY distinct analysis.
     const failedInAllRuns = new Map<string, boolean>();
-    const runs: any[] = [(data as any).multirun?.runs].filter(Boolean).flat();
+    const runs: MultirunRun[] = data.multirun?.runs ?? [];
     if (runs.length > 1) {
       for (const auditId of Object.keys(audits)) {
-        failedInAllRuns.set(auditId, runs.every((r) => r?.audits?.[auditId]?.score !== null && r?.audits?.[auditId]?.score < 0.9));
+        failedInAllRuns.set(auditId, runs.every((r) => r.failingAudits.includes(auditId)));
       }
     }
 
@@ -310,7 +311,8 @@ export class PerformanceRecommendationsEngine {
         auditId.endsWith('-insight') && (audit.details?.items?.length ?? 0) > 0;
       if (audit.score === 1) return; // score 1 = pass, skip regardless
       if (!isInsightWithItems && audit.score === null) return;
-      if (failedInAllRuns.get(auditId) === false) return;
+      // Informational audits never fail, so runs say nothing about them
+      if (audit.score !== null && failedInAllRuns.get(auditId) === false) return;
 
       const baseRecommendation = this.auditMappings.get(auditId);
       if (!baseRecommendation) return;
@@ -15,7 +15,7 @@ export const UrlSchema = z
     { message: "URL must use http:// or https:// scheme" }
   );
 
-export const StrategySchema = z.enum(["mobile", "desktop", "both"]).default("mobile");
+export const StrategySchema = z.enum(["mobile", "desktop", "both"]).default("mobile").describe("Analysis strategy");
 
 export const CategorySchema = z.enum([
   "performance",
@@ -28,12 +28,31 @@ export const CategorySchema = z.enum([
 export const LocaleSchema = z
   .string()
   .regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Invalid locale format")
-  .default("en");
+  .default("en")
+  .describe("Locale for results");
+
+const FormFactorSchema = z.enum(["PHONE", "DESKTOP", "TABLET"]);
+
+export const FreshnessSchema = z
+  .enum(["cached-only", "prefer-cache", "revalidate-in-background", "force-refresh"])
+  .optional()
+  .describe(
+    "How to use cached results (default prefer-cache): cached-only never calls the API, " +
+    "revalidate-in-background answers from cache and refreshes it for the next call, force-refresh always runs a new analysis"
+  );
+
+export const ExcludeOutliersSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "With several runs, leave runs outside Tukey's fences (1.5 × IQR beyond the quartiles) out of the spreads. " +
+    "Outliers are flagged either way"
+  );
 
 export const AnalyzePageSpeedSchema = z.object({
-  url: UrlSchema,
+  url: UrlSchema.describe("The URL to analyze"),
   strategy: StrategySchema,
-  category: z.array(CategorySchema).optional().default(["performance"]),
+  category: z.array(CategorySchema).optional().default(["performance"]).describe("Categories to analyze"),
   locale: LocaleSchema,
   runs: z
     .number()
@@ -43,42 +62,188 @@ export const AnalyzePageSpeedSchema = z.object({
     .optional()
     .describe(
       "Distinct analyses to run (default 1). >1 reports median with min-max spread; " +
-      "cached replays (same fetchTime) are dropped and counted"
+      "cached replays (same fetchTime) are dropped and counted. With target_precision, the minimum number of runs (default 3)"
     ),
+  target_precision: z
+    .number()
+    .min(0.5)
+    .max(50)
+    .optional()
+    .describe(
+      "Adaptive sampling: keep running until the 95% confidence interval of the median performance score is at most " +
+      "this many points wide (e.g. 5), and while TBT is still swinging widely. Stable pages stop early"
+    ),
+  max_runs: z
+    .number()
+    .int()
+    .min(2)
+    .max(10)
+    .optional()
+    .describe("Adaptive sampling's cap on runs (default 8; each run past the first waits ~65s). Only used with target_precision"),
+  exclude_outliers: ExcludeOutliersSchema,
+  freshness: FreshnessSchema,
+});
+
+export const RecommendationsSchema = AnalyzePageSpeedSchema.extend({
+  url: UrlSchema.describe("The URL to analyze for recommendations"),
+  category: z
+    .array(CategorySchema)
+    .optional()
+    .default(["performance", "accessibility", "best-practices", "seo"])
+    .describe("Categories to analyze for recommendations"),
 });
 
 export const PerformanceSummarySchema = z.object({
-  url: UrlSchema,
+  url: UrlSchema.describe("The URL to analyze"),
   strategy: StrategySchema,
+  freshness: FreshnessSchema,
 });
 
+const AnalysisIdSchema = z
+  .string()
+  .min(1)
+  .describe("Reuse a stored analysis (from an earlier tool result) instead of running a new one");
+
+const DrillDownFields = {
+  url: UrlSchema.optional().describe("The URL to analyze (omit when passing analysisId)"),
+  strategy: StrategySchema,
+  analysisId: AnalysisIdSchema.optional(),
+  freshness: FreshnessSchema,
+};
+
+const requireUrlOrAnalysisId = (value: { url?: string; analysisId?: string }) =>
+  Boolean(value.url || value.analysisId);
+
+export const DrillDownSchema = z
+  .object(DrillDownFields)
+  .refine(requireUrlOrAnalysisId, { message: "Either url or analysisId is required" });
+
+export const FullAuditSchema = z
+  .object({
+    ...DrillDownFields,
+    categories: z
+      .array(CategorySchema)
+      .optional()
+      .default(["performance", "accessibility", "best-practices", "seo"])
+      .describe("Categories to audit"),
+  })
+  .refine(requireUrlOrAnalysisId, { message: "Either url or analysisId is required" });
+
 export const CruxSummarySchema = z.object({
-  url: UrlSchema,
-  formFactor: z.enum(["PHONE", "DESKTOP", "TABLET"]).optional(),
+  url: UrlSchema.describe("The URL to analyze"),
+  formFactor: FormFactorSchema.optional().describe("Form factor for CrUX data"),
 });
 
 export const OriginCruxSchema = z.object({
-  origin: UrlSchema,
-  formFactor: z.enum(["PHONE", "DESKTOP", "TABLET", "ALL"]).optional(),
+  origin: UrlSchema.describe("The origin (scheme + host, e.g. https://example.com) to query"),
+  formFactor: z
+    .enum(["PHONE", "DESKTOP", "TABLET", "ALL"])
+    .optional()
+    .describe("Device form factor to filter field data (default: all devices)"),
 });
 
+export const CruxHistorySchema = z
+  .object({
+    url: UrlSchema.optional().describe("Page URL to query (use either url or origin)"),
+    origin: UrlSchema.optional().describe("Origin (scheme + host) to query instead of a single page"),
+    formFactor: FormFactorSchema.optional().describe("Form factor for CrUX data (default: all devices)"),
+    periods: z
+      .number()
+      .int()
+      .min(1)
+      .max(40)
+      .default(25)
+      .describe("Weekly collection periods to fetch, oldest first (max 40)"),
+    chart: z.enum(["ascii", "mermaid"]).default("ascii").describe("Chart format for the trend lines"),
+  })
+  .refine((input) => Boolean(input.url) !== Boolean(input.origin), {
+    message: "Pass exactly one of url or origin",
+  });
+
 export const CompareUrlsSchema = z.object({
-  urlA: UrlSchema,
-  urlB: UrlSchema,
+  urlA: UrlSchema.describe("First URL to compare"),
+  urlB: UrlSchema.describe("Second URL to compare"),
   strategy: StrategySchema,
-  categories: z.array(CategorySchema).optional().default(["performance"]),
+  categories: z.array(CategorySchema).optional().default(["performance"]).describe("Categories to compare"),
+  freshness: FreshnessSchema,
 });
 
 export const BatchAnalyzeSchema = z.object({
-  urls: z.array(UrlSchema).min(1).max(10),
+  urls: z.array(UrlSchema).min(1).max(10).describe("URLs to analyze (max 10)"),
   strategy: StrategySchema,
-  category: z.array(CategorySchema).optional().default(["performance"]),
+  category: z.array(CategorySchema).optional().default(["performance"]).describe("Categories to analyze"),
   locale: LocaleSchema,
+  freshness: FreshnessSchema,
+});
+
+export const ClearCacheSchema = z.object({
+  url_pattern: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only entries whose URL contains this text, or matches it as a glob with * wildcards (e.g. https://example.com/blog/*)"),
+  strategy: z.enum(["mobile", "desktop"]).optional().describe("Only Lighthouse (psi) entries for this strategy"),
+  cache_type: z
+    .enum(["psi", "crux"])
+    .optional()
+    .describe("Only PageSpeed Insights (psi) or Chrome UX Report (crux) entries"),
+});
+
+export const CacheStatsSchema = z.object({});
+
+const BaselineNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9._/-]{1,100}$/, "Use letters, digits, '.', '_', '-' and '/' (up to 100 characters)");
+
+export const CompareBaselineSchema = z.object({
+  url: UrlSchema.describe("The URL to measure"),
+  strategy: z.enum(["mobile", "desktop"]).default("mobile").describe("Part of the baseline identity"),
+  baseline_name: BaselineNameSchema.default("default").describe(
+    "Which of the page's baselines to compare against or record, e.g. a branch or release: \"main\", \"release-2026.10\", \"pre-image-cdn\""
+  ),
+  compare_to: BaselineNameSchema.optional().describe(
+    "Compare baseline_name against this other saved baseline of the same URL and strategy instead of measuring. Runs nothing"
+  ),
+  runs: z.number().int().min(2).max(5).default(3).describe("Distinct analyses per side. Default 3 (~2 min)"),
+  exclude_outliers: ExcludeOutliersSchema,
+  save_baseline: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Replace the baseline with THIS measurement (move the starting point). " +
+      "Default false: repeated calls keep comparing against the original baseline"
+    ),
 });
 
+export const ListBaselinesSchema = z.object({
+  url: UrlSchema.optional().describe("Only baselines of this URL"),
+});
+
+export const DeleteBaselineSchema = z.object({
+  url: UrlSchema.describe("URL of the baseline"),
+  strategy: z.enum(["mobile", "desktop"]).default("mobile").describe("Strategy of the baseline"),
+  baseline_name: BaselineNameSchema.default("default").describe("Name of the baseline to delete"),
+});
+
+/** One line per issue, "path: message", for error text shown to the agent. */
+export function describeZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
 export type AnalyzePageSpeedInput = z.infer<typeof AnalyzePageSpeedSchema>;
+export type Freshness = NonNullable<z.infer<typeof FreshnessSchema>>;
+export type RecommendationsInput = z.infer<typeof RecommendationsSchema>;
+export type DrillDownInput = z.infer<typeof DrillDownSchema>;
+export type FullAuditInput = z.infer<typeof FullAuditSchema>;
 export type PerformanceSummaryInput = z.infer<typeof PerformanceSummarySchema>;
 export type CruxSummaryInput = z.infer<typeof CruxSummarySchema>;
 export type OriginCruxInput = z.infer<typeof OriginCruxSchema>;
+export type CruxHistoryInput = z.infer<typeof CruxHistorySchema>;
 export type CompareUrlsInput = z.infer<typeof CompareUrlsSchema>;
 export type BatchAnalyzeInput = z.infer<typeof BatchAnalyzeSchema>;
+export type CompareBaselineInput = z.infer<typeof CompareBaselineSchema>;
+export type ClearCacheInput = z.infer<typeof ClearCacheSchema>;
+export type ListBaselinesInput = z.infer<typeof ListBaselinesSchema>;
+export type DeleteBaselineInput = z.infer<typeof DeleteBaselineSchema>;
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PageSpeedInsightsResponse } from "../types.js";
+
+vi.mock("../logger.js", () => {
+  const fakeChild = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  return { getLogger: () => fakeChild };
+});
+
+const { analysisStore, analysisResourceUri, parseAnalysisResourceUri } = await import("../analysis-store.js");
+const { SimpleCache, DiskCacheStore } = await import("../cache.js");
+
+const meta = { url: "https://example.com", strategy: "mobile" };
+
+function run(fetchTime: string): PageSpeedInsightsResponse {
+  return { lighthouseResult: { fetchTime } } as PageSpeedInsightsResponse;
+}
+
+describe("analysisStore", () => {
+  let dir: string;
+  beforeEach(() => {
+    analysisStore.clear();
+    dir = mkdtempSync(join(tmpdir(), "psi-analyses-"));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("stores and returns an analysis by id", () => {
+    const result = { analysisUTCTimestamp: "t1" };
+    const id = analysisStore.put(result, meta);
+    expect(analysisStore.get(id)).toMatchObject({ id, url: meta.url, strategy: "mobile", result });
+  });
+
+  it("gives the same Lighthouse run (a cache hit) the same id", () => {
+    const id = analysisStore.put(run("2026-01-01T00:00:00.000Z"), meta);
+    expect(analysisStore.put(run("2026-01-01T00:00:00.000Z"), meta)).toBe(id);
+    expect(analysisStore.put(run("2026-01-01T00:05:00.000Z"), meta)).not.toBe(id);
+    expect(analysisStore.put(run("2026-01-01T00:00:00.000Z"), { ...meta, strategy: "desktop" })).not.toBe(id);
+    expect(analysisStore.put({}, meta)).not.toBe(analysisStore.put({}, meta));
+  });
+
+  it("recognises a run read back from the disk cache", () => {
+    const cache = new SimpleCache(new DiskCacheStore(dir), { maxEntries: 10, maxBytes: 1024 * 1024 });
+    cache.set("psi:a", run("2026-01-01T00:00:00.000Z"), 60_000);
+
+    const first = cache.get<PageSpeedInsightsResponse>("psi:a")!;
+    const second = cache.get<PageSpeedInsightsResponse>("psi:a")!;
+    expect(second).not.toBe(first);
+    expect(analysisStore.put(second, meta)).toBe(analysisStore.put(first, meta));
+    expect(analysisStore.size()).toBe(1);
+  });
+
+  it("mints a new id for a run whose analysis was evicted", () => {
+    const id = analysisStore.put(run("2026-01-01T00:00:00.000Z"), meta);
+    for (let i = 0; i < 20; i++) analysisStore.put({}, meta);
+    expect(analysisStore.put(run("2026-01-01T00:00:00.000Z"), meta)).not.toBe(id);
+  });
+
+  it("evicts the oldest analyses past the limit", () => {
+    const first = analysisStore.put({}, meta);
+    for (let i = 0; i < 20; i++) analysisStore.put({}, meta);
+    expect(analysisStore.size()).toBe(20);
+    expect(analysisStore.get(first)).toBeNull();
+  });
+});
+
+describe("analysis resource URIs", () => {
+  it("round-trips the lighthouse URI", () => {
+    expect(parseAnalysisResourceUri(analysisResourceUri("abc"))).toEqual({ id: "abc", resource: "lighthouse" });
+  });
+
+  it("parses audit URIs", () => {
+    expect(parseAnalysisResourceUri("psi://analysis/abc/audits/largest-contentful-paint")).toEqual({
+      id: "abc",
+      resource: "audit",
+      auditId: "largest-contentful-paint",
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseAnalysisResourceUri("psi://analysis/abc")).toBeNull();
+    expect(parseAnalysisResourceUri("https://example.com/lighthouse.json")).toBeNull();
+    expect(parseAnalysisResourceUri("psi://analysis/abc/audits/%E0")).toBeNull();
+  });
+});
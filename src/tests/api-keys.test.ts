@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+vi.mock("../env.js", () => ({
+  getEnv: () => ({ GOOGLE_API_KEY: "test-api-key", LOG_LEVEL: "info", NODE_ENV: "test" }),
+}));
+
+const { ApiKeyPool, configuredKeys, isInvalidKey } = await import("../api-keys.js");
+const { QuotaError } = await import("../errors.js");
+
+describe("ApiKeyPool", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rotates round-robin and passes a sidelined key's turn on", () => {
+    const pool = new ApiKeyPool("psi", ["a", "b", "c"]);
+    expect([pool.next(), pool.next(), pool.next(), pool.next()]).toEqual(["a", "b", "c", "a"]);
+
+    expect(pool.sideline("b", "invalid-key")).toBe(true);
+    expect([pool.next(), pool.next(), pool.next()]).toEqual(["c", "a", "c"]);
+  });
+
+  it("picks the least-used key", () => {
+    const pool = new ApiKeyPool("psi", ["a", "b"], "least-used");
+    pool.sideline("b", "rate-limited", 10_000);
+    expect([pool.next(), pool.next()]).toEqual(["a", "a"]);
+    // Reinstated keys catch up before sharing the load again
+    pool.sideline("a", "rate-limited", 10_000);
+    vi.useFakeTimers({ now: Date.now() + 10_000 });
+    expect([pool.next(), pool.next()]).toEqual(["b", "b"]);
+  });
+
+  it("brings a key back once its sideline time has passed", () => {
+    vi.useFakeTimers();
+    const pool = new ApiKeyPool("crux", ["a", "b"]);
+    expect(pool.sideline("a", "rate-limited", 30_000)).toBe(true);
+    expect(pool.sideline("b", "daily-quota")).toBe(false);
+    expect(() => pool.next()).toThrow(QuotaError);
+    expect(() => pool.next()).toThrow("All 2 Chrome UX Report API keys are sidelined");
+
+    vi.advanceTimersByTime(30_000);
+    expect(pool.next()).toBe("a");
+  });
+
+  it("never sidelines a single key", () => {
+    const pool = new ApiKeyPool("psi", ["only"]);
+    expect(pool.sideline("only", "daily-quota")).toBe(false);
+    expect(pool.next()).toBe("only");
+  });
+
+  it("redacts every key in the pool", () => {
+    const pool = new ApiKeyPool("psi", ["first-key", "second-key"]);
+    expect(pool.redact("key=first-key&fallback=second-key")).toBe("key=[REDACTED]&fallback=[REDACTED]");
+  });
+});
+
+describe("configuredKeys", () => {
+  it("puts GOOGLE_API_KEY first and drops duplicates", () => {
+    expect(configuredKeys({ GOOGLE_API_KEY: "a", GOOGLE_API_KEYS: ["b", "a", "c"] })).toEqual(["a", "b", "c"]);
+    expect(configuredKeys({ GOOGLE_API_KEY: undefined, GOOGLE_API_KEYS: ["b"] })).toEqual(["b"]);
+  });
+});
+
+describe("isInvalidKey", () => {
+  it("recognises rejected and disabled keys", () => {
+    expect(isInvalidKey('{"error":{"message":"API key not valid. Please pass a valid API key."}}')).toBe(true);
+    expect(isInvalidKey('{"error":{"details":[{"reason":"SERVICE_DISABLED"}]}}')).toBe(true);
+    expect(isInvalidKey('{"error":{"message":"Invalid URL"}}')).toBe(false);
+  });
+});
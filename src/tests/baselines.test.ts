@@ -2,7 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { mkdtempSync, rmSync } from "fs";
 import { tmpdir } from "os";
 import { join } from "path";
-import { getBaseline, saveBaseline, clearBaseline, compareBaselines } from "../baselines.js";
+import { readFileSync } from "fs";
+import { getBaseline, saveBaseline, clearBaseline, compareBaselines, listBaselines, strategyGaps } from "../baselines.js";
 
 const URL_ = "https://example.com";
 const S = "mobile";
@@ -62,7 +63,62 @@ describe("baselines", () => {
 
   it("clearBaseline removes", () => {
     saveBaseline(URL_, S, mr(30, 27, 37));
-    clearBaseline(URL_, S);
+    expect(clearBaseline(URL_, S)).toBe(true);
     expect(getBaseline(URL_, S)).toBeNull();
+    expect(clearBaseline(URL_, S)).toBe(false);
+  });
+
+  it("named baselines sit beside the default one", () => {
+    saveBaseline(URL_, S, mr(30, 27, 37), "12.0.0");
+    saveBaseline(URL_, S, mr(60, 55, 65), "12.0.0", "feature/lazy-images");
+
+    expect(getBaseline(URL_, S)?.scores.performance.median).toBe(30);
+    expect(getBaseline(URL_, S, "feature/lazy-images")?.scores.performance.median).toBe(60);
+    expect(getBaseline(URL_, S, "main")).toBeNull();
+
+    // The default keeps the key it had before names existed, so old files still load
+    const file = JSON.parse(readFileSync(join(dir, "baselines.json"), "utf8"));
+    expect(Object.keys(file).sort()).toEqual([JSON.stringify([URL_, S, "feature/lazy-images"]), `${URL_}|${S}`]);
+
+    expect(clearBaseline(URL_, S, "feature/lazy-images")).toBe(true);
+    expect(getBaseline(URL_, S)).not.toBeNull();
+  });
+
+  it("a baseline named after a strategy lists under its own URL and name", () => {
+    saveBaseline(URL_, "mobile", mr(30, 27, 37), undefined, "desktop");
+
+    expect(listBaselines(URL_)).toMatchObject([{ url: URL_, strategy: "mobile", name: "desktop" }]);
+    expect(getBaseline(URL_, "desktop")).toBeNull();
+  });
+
+  it("listBaselines lists every snapshot newest first, optionally for one URL", () => {
+    saveBaseline(URL_, S, mr(30, 27, 37), "12.0.0");
+    saveBaseline("https://other.example", "desktop", mr(80, 78, 84), undefined, "release-2");
+    saveBaseline(URL_, "desktop", mr(60, 55, 65), undefined, "main");
+
+    const all = listBaselines();
+    expect(all).toHaveLength(3);
+    expect([...all].sort((a, b) => b.recorded.localeCompare(a.recorded))).toEqual(all);
+    expect(all.find((b) => b.name === "release-2")).toMatchObject({
+      url: "https://other.example",
+      strategy: "desktop",
+      performance: { median: 80, min: 78, max: 84 },
+    });
+
+    const one = listBaselines(URL_);
+    expect(one.map((b) => `${b.strategy}:${b.name}`).sort()).toEqual(["desktop:main", "mobile:default"]);
+    expect(one.find((b) => b.name === "default")?.lighthouseVersion).toBe("12.0.0");
+  });
+});
+
+describe("strategyGaps", () => {
+  it("calls a gap only where mobile and desktop ranges are disjoint", () => {
+    const mobile = mr(40, 35, 45);
+    const desktop = { ...mr(90, 88, 93), metrics: { "total-blocking-time": { median: 420, min: 380, max: 460 }, "network-requests": { median: 1, min: 1, max: 1 } } };
+    const gaps = strategyGaps(mobile as any, desktop as any);
+
+    expect(gaps.map((g) => g.metric)).toEqual(["performance", "total-blocking-time"]);
+    expect(gaps[0]).toMatchObject({ verdict: "desktop-better", medianGap: 50, guaranteedGap: 43 });
+    expect(gaps[1]).toMatchObject({ verdict: "within-noise", guaranteedGap: 0 });
   });
 });
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const env = vi.hoisted(() => ({
+  GOOGLE_API_KEY: "test-api-key",
+  LOG_LEVEL: "info",
+  NODE_ENV: "test",
+  CACHE_MAX_ENTRIES: 500,
+  CACHE_MAX_BYTES: 256 * 1024 * 1024,
+  CACHE_BACKEND: "memory",
+  CACHE_DIR: undefined as string | undefined,
+}));
+vi.mock("../env.js", () => ({ getEnv: () => env }));
+
+const { SimpleCache, DiskCacheStore, MemoryCacheStore, createCacheStore, describeCacheKey, matchesCacheFilter, createPSICacheKey } =
+  await import("../cache.js");
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "psi-cache-"));
+});
+afterEach(() => {
+  vi.useRealTimers();
+  env.CACHE_BACKEND = "memory";
+  env.CACHE_DIR = undefined;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("createCacheStore", () => {
+  it("keeps entries in memory by default", () => {
+    expect(createCacheStore()).toBeInstanceOf(MemoryCacheStore);
+  });
+
+  it("uses CACHE_DIR when CACHE_BACKEND=disk", () => {
+    env.CACHE_BACKEND = "disk";
+    env.CACHE_DIR = join(dir, "nested");
+    const cache = new SimpleCache();
+    cache.set("psi:a", { score: 1 }, 60_000);
+    expect(readdirSync(env.CACHE_DIR)).toHaveLength(1);
+  });
+});
+
+describe("SimpleCache on disk", () => {
+  it("serves entries written before a restart", () => {
+    new SimpleCache(new DiskCacheStore(dir)).set("psi:a", { score: 0.9 }, 60_000);
+
+    const restarted = new SimpleCache(new DiskCacheStore(dir));
+    expect(restarted.get("psi:a")).toEqual({ score: 0.9 });
+    expect(restarted.size()).toBe(1);
+  });
+
+  it("keeps the TTL across restarts", () => {
+    vi.useFakeTimers();
+    new SimpleCache(new DiskCacheStore(dir)).set("psi:a", { score: 0.9 }, 60_000);
+    vi.advanceTimersByTime(61_000);
+
+    const restarted = new SimpleCache(new DiskCacheStore(dir));
+    expect(restarted.get("psi:a")).toBeNull();
+    expect(readdirSync(dir)).toHaveLength(0);
+  });
+
+  it("shares entries between processes using the same directory", () => {
+    const a = new SimpleCache(new DiskCacheStore(dir));
+    const b = new SimpleCache(new DiskCacheStore(dir));
+    a.set("crux:x", { record: 1 }, 60_000);
+    b.set("crux:x", { record: 2 }, 60_000);
+    expect(a.get("crux:x")).toEqual({ record: 2 });
+
+    b.clear();
+    expect(a.size()).toBe(0);
+    // no temp files left behind by the atomic writes
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("treats an unreadable entry as a miss and removes it", () => {
+    const cache = new SimpleCache(new DiskCacheStore(dir));
+    cache.set("psi:a", { score: 0.9 }, 60_000);
+    const [file] = readdirSync(dir);
+    writeFileSync(join(dir, file), "{ truncated");
+
+    expect(cache.get("psi:a")).toBeNull();
+    expect(readdirSync(dir)).toHaveLength(0);
+  });
+
+  it("sweeps temp files left by interrupted writes when it opens", () => {
+    const stale = join(dir, "abc.json.123.x.tmp");
+    const inFlight = join(dir, "def.json.456.y.tmp");
+    writeFileSync(stale, "partial");
+    writeFileSync(inFlight, "partial");
+    const old = new Date(Date.now() - 10 * 60_000);
+    utimesSync(stale, old, old);
+
+    new DiskCacheStore(dir);
+    expect(readdirSync(dir)).toEqual(["def.json.456.y.tmp"]);
+  });
+
+  it("lists from its index and reads only headers it has not seen", () => {
+    const store = new DiskCacheStore(dir);
+    const cache = new SimpleCache(store);
+    cache.set("psi:a", { score: 0.9 }, 60_000);
+    expect(store.list().map((e) => e.key)).toEqual(["psi:a"]);
+
+    // Rewriting a known file in place leaves the directory alone: no rescan
+    const [file] = readdirSync(dir);
+    writeFileSync(join(dir, file), "{ truncated");
+    expect(store.list().map((e) => e.key)).toEqual(["psi:a"]);
+
+    // A file another process adds is picked up
+    new DiskCacheStore(dir).write({ key: "crux:b", data: 1, storedAt: 0, expiresAt: Date.now() + 60_000, lastAccessed: 0, size: 1 });
+    expect(store.list().map((e) => e.key).sort()).toEqual(["crux:b", "psi:a"]);
+  });
+
+  it("cleans up only expired entries", () => {
+    vi.useFakeTimers();
+    const cache = new SimpleCache(new DiskCacheStore(dir));
+    cache.set("psi:short", 1, 1_000);
+    cache.set("psi:long", 2, 60_000);
+    vi.advanceTimersByTime(2_000);
+
+    cache.cleanup();
+    expect(cache.size()).toBe(1);
+    expect(cache.get("psi:long")).toBe(2);
+  });
+});
+
+describe("limits and eviction", () => {
+  for (const [backend, store] of [
+    ["memory", () => new MemoryCacheStore()],
+    ["disk", () => new DiskCacheStore(dir)],
+  ] as const) {
+    it(`evicts the least recently used entry beyond maxEntries (${backend})`, () => {
+      vi.useFakeTimers();
+      const cache = new SimpleCache(store(), { maxEntries: 2, maxBytes: 1024 * 1024 });
+      cache.set("psi:a", 1, 60_000);
+      vi.advanceTimersByTime(1_000);
+      cache.set("psi:b", 2, 60_000);
+      vi.advanceTimersByTime(1_000);
+      expect(cache.get("psi:a")).toBe(1); // a is now more recent than b
+      vi.advanceTimersByTime(1_000);
+      cache.set("psi:c", 3, 60_000);
+
+      expect(cache.get("psi:b")).toBeNull();
+      expect(cache.entries().map((e) => e.key)).toEqual(["psi:c", "psi:a"]);
+      expect(cache.stats()).toMatchObject({ backend, entries: 2, hits: 1, misses: 1, evictions: 1 });
+    });
+  }
+
+  it("evicts by size and never stores an entry larger than the cache", () => {
+    vi.useFakeTimers();
+    const cache = new SimpleCache(new MemoryCacheStore(), { maxEntries: 10, maxBytes: 100 });
+    cache.set("psi:a", "x".repeat(40), 60_000);
+    vi.advanceTimersByTime(1_000);
+    cache.set("psi:b", "y".repeat(40), 60_000);
+    vi.advanceTimersByTime(1_000);
+    cache.set("psi:c", "z".repeat(40), 60_000);
+    cache.set("psi:huge", "h".repeat(200), 60_000);
+
+    expect(cache.entries().map((e) => e.key)).toEqual(["psi:c", "psi:b"]);
+    expect(cache.stats()).toMatchObject({ bytes: 84, evictions: 1 });
+  });
+});
+
+describe("cache keys and filters", () => {
+  const psiKey = createPSICacheKey("https://example.com:8080/a", "mobile", ["seo", "performance"], "en");
+
+  it("recovers the request parameters from a key", () => {
+    expect(describeCacheKey(psiKey)).toEqual({
+      type: "psi",
+      url: "https://example.com:8080/a",
+      strategy: "mobile",
+      categories: ["performance", "seo"],
+      locale: "en",
+      formFactor: null,
+    });
+    expect(describeCacheKey("crux:https://example.com/a:PHONE")).toMatchObject({ type: "crux", url: "https://example.com/a", formFactor: "PHONE" });
+    expect(describeCacheKey("crux:history:https://example.com:ALL:25")).toMatchObject({ type: "crux", url: "https://example.com", formFactor: "ALL" });
+  });
+
+  it("matches URL substrings, globs, strategy and type", () => {
+    expect(matchesCacheFilter(psiKey, { urlPattern: "example.com" })).toBe(true);
+    expect(matchesCacheFilter(psiKey, { urlPattern: "https://example.com:8080/*" })).toBe(true);
+    expect(matchesCacheFilter(psiKey, { urlPattern: "https://example.com/*" })).toBe(false);
+    expect(matchesCacheFilter(psiKey, { strategy: "desktop" })).toBe(false);
+    expect(matchesCacheFilter(psiKey, { type: "crux" })).toBe(false);
+    expect(matchesCacheFilter("crux:https://example.com/a:PHONE", { strategy: "mobile" })).toBe(false);
+  });
+
+  it("removes only matching entries", () => {
+    const cache = new SimpleCache(new MemoryCacheStore());
+    cache.set(psiKey, 1, 60_000);
+    cache.set(createPSICacheKey("https://other.com", "mobile", ["performance"], "en"), 2, 60_000);
+    cache.set("crux:https://example.com:8080/a:PHONE", 3, 60_000);
+
+    expect(cache.remove({ urlPattern: "example.com", type: "psi" })).toBe(1);
+    expect(cache.size()).toBe(2);
+  });
+});
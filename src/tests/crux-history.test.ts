@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCruxHistory,
+  findThresholdCrossings,
+  renderAsciiChart,
+  renderMermaidChart,
+  formatCruxHistoryReport,
+} from "../crux-history.js";
+
+const period = (day: number) => ({
+  firstDate: { year: 2026, month: 1, day },
+  lastDate: { year: 2026, month: 2, day },
+});
+
+function historyResponse() {
+  return {
+    record: {
+      key: { origin: "https://example.com", formFactor: "PHONE" },
+      metrics: {
+        largest_contentful_paint: { percentilesTimeseries: { p75s: [2300, 2450, null, 2700, 4100] } },
+        cumulative_layout_shift: { percentilesTimeseries: { p75s: ["0.12", "0.08", "NaN", "0.07", "0.06"] } },
+        round_trip_time: { percentilesTimeseries: { p75s: [100, 100, 100, 100, 100] } },
+      },
+      collectionPeriods: [period(1), period(8), period(15), period(22), period(28)],
+    },
+  };
+}
+
+describe("parseCruxHistory", () => {
+  it("returns null without a record", () => {
+    expect(parseCruxHistory({})).toBeNull();
+  });
+
+  it("keeps only the trend metrics, with numeric p75s and gaps as null", () => {
+    const series = parseCruxHistory(historyResponse())!;
+    expect(series.formFactor).toBe("PHONE");
+    expect(series.periods[0]).toEqual({ firstDate: "2026-01-01", lastDate: "2026-02-01" });
+    expect(series.metrics.map((m) => m.label)).toEqual(["LCP", "CLS"]);
+
+    const cls = series.metrics.find((m) => m.label === "CLS")!;
+    expect(cls.p75s).toEqual([0.12, 0.08, null, 0.07, 0.06]);
+    expect(cls).toMatchObject({ latest: 0.06, rating: "good" });
+    expect(series.metrics[0]).toMatchObject({ latest: 4100, rating: "poor" });
+  });
+});
+
+describe("findThresholdCrossings", () => {
+  it("reports each rating change across measured periods, skipping gaps", () => {
+    const crossings = findThresholdCrossings(parseCruxHistory(historyResponse())!);
+    expect(crossings).toEqual([
+      expect.objectContaining({ label: "LCP", from: "good", to: "needs-improvement", previous: 2450, current: 2700, periodEnd: "2026-02-22", direction: "regressed" }),
+      expect.objectContaining({ label: "LCP", from: "needs-improvement", to: "poor", current: 4100, direction: "regressed" }),
+      expect.objectContaining({ label: "CLS", from: "needs-improvement", to: "good", periodEnd: "2026-02-08", direction: "improved" }),
+    ]);
+  });
+});
+
+describe("charts", () => {
+  const series = parseCruxHistory(historyResponse())!;
+  const lcp = series.metrics[0];
+
+  it("draws one ASCII column per period with the threshold rows", () => {
+    const chart = renderAsciiChart(lcp);
+    const rows = chart.split("\n");
+    expect(rows[0]).toBe("LCP p75 (ms)");
+    expect(rows[1]).toContain("4100ms |");
+    expect(rows[1].endsWith("*")).toBe(true);
+    expect(chart).toMatch(/2500ms \|[-*]+$/m);
+    expect(rows.at(-1)).toMatch(/\+-{5}$/);
+  });
+
+  it("renders a Mermaid xychart with the good threshold as a second line", () => {
+    const chart = renderMermaidChart(lcp, series.periods);
+    expect(chart).toContain("xychart-beta");
+    expect(chart).toContain('x-axis ["02-01", "02-08", "02-15", "02-22", "02-28"]');
+    // the gap repeats the previous value
+    expect(chart).toContain("line [2300, 2450, 2450, 2700, 4100]");
+    expect(chart).toContain("line [2500, 2500, 2500, 2500, 2500]");
+  });
+
+  it("notes crossings and the collection window in the report", () => {
+    const report = formatCruxHistoryReport(series, { kind: "origin", value: "https://example.com" }, "ascii");
+    expect(report).toContain("**Collection periods:** 5 weekly (2026-01-01 → 2026-02-28)");
+    expect(report).toContain("**LCP** regressed: good → needs-improvement in the period ending 2026-02-22 (2450ms → 2700ms)");
+    expect(report).toContain("**CLS** improved");
+  });
+
+  it("says so when there is no history", () => {
+    expect(formatCruxHistoryReport(null, { kind: "url", value: "https://example.com/a" }, "mermaid")).toContain(
+      "No field data available"
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { summarizeCruxRecord, formatCruxRecord } from "../crux-report.js";
+
+function cruxResponse() {
+  return {
+    record: {
+      key: { url: "https://example.com", formFactor: "PHONE" },
+      metrics: {
+        largest_contentful_paint: {
+          histogram: [
+            { start: 0, end: 2500, density: 0.62 },
+            { start: 2500, end: 4000, density: 0.23 },
+            { start: 4000, density: 0.15 },
+          ],
+          percentiles: { p75: 3100 },
+        },
+        cumulative_layout_shift: {
+          histogram: [
+            { start: "0.00", end: "0.10", density: 0.9 },
+            { start: "0.10", end: "0.25", density: 0.06 },
+            { start: "0.25", density: 0.04 },
+          ],
+          percentiles: { p75: "0.05" },
+        },
+        round_trip_time: { percentiles: { p75: 180 } },
+        navigation_types: { fractions: { navigate: 0.7, back_forward_cache: 0.1, reload: 0.2 } },
+        largest_contentful_paint_resource_type: { fractions: { image: 0.8, text: 0.2 } },
+        largest_contentful_paint_image_time_to_first_byte: { percentiles: { p75: 900 } },
+        largest_contentful_paint_image_resource_load_delay: { percentiles: { p75: 1400 } },
+        largest_contentful_paint_image_resource_load_duration: { percentiles: { p75: 300 } },
+        largest_contentful_paint_image_element_render_delay: { percentiles: { p75: 200 } },
+      },
+      collectionPeriod: {
+        firstDate: { year: 2026, month: 9, day: 1 },
+        lastDate: { year: 2026, month: 9, day: 28 },
+      },
+    },
+  };
+}
+
+describe("summarizeCruxRecord", () => {
+  it("returns null without a record", () => {
+    expect(summarizeCruxRecord({})).toBeNull();
+  });
+
+  it("rates each metric, splits the histogram and assesses Core Web Vitals", () => {
+    const summary = summarizeCruxRecord(cruxResponse())!;
+    expect(summary.collectionPeriod).toEqual({ firstDate: "2026-09-01", lastDate: "2026-09-28" });
+    expect(summary.metrics.largest_contentful_paint).toMatchObject({
+      rating: "needs-improvement",
+      passed: false,
+      distribution: { good: 0.62, needsImprovement: 0.23, poor: 0.15 },
+    });
+    expect(summary.metrics.cumulative_layout_shift).toMatchObject({ rating: "good", passed: true });
+    expect(summary.metrics.round_trip_time).toMatchObject({ p75: 180, rating: null, passed: null, distribution: null });
+    expect(summary.fractions.navigation_types).toEqual({ navigate: 0.7, back_forward_cache: 0.1, reload: 0.2 });
+    expect(summary.coreWebVitals).toEqual({ passed: false, failing: ["LCP"] });
+  });
+});
+
+describe("formatCruxRecord", () => {
+  const report = formatCruxRecord(cruxResponse(), "CrUX Field Data Summary", { label: "URL", value: "https://example.com" });
+
+  it("shows the period, the assessment and a verdict per metric", () => {
+    expect(report).toContain("**Collection Period:** 2026-09-01 → 2026-09-28");
+    expect(report).toContain("## Core Web Vitals Assessment: ❌ Failed");
+    expect(report).toContain("Failing at p75: LCP.");
+    expect(report).toContain("**Largest Contentful Paint**: 3100ms (p75) ❌ fail — needs-improvement (good ≤ 2500ms)");
+    expect(report).toContain("**Cumulative Layout Shift**: 0.05 (p75) ✅ pass (good ≤ 0.1)");
+  });
+
+  it("draws percentage bars for the histogram buckets", () => {
+    expect(report).toContain("Good               ████████████░░░░░░░░  62.0%");
+    expect(report).toContain("Poor               ███░░░░░░░░░░░░░░░░░  15.0%");
+  });
+
+  it("explains the result with network, navigation and LCP breakdown data", () => {
+    expect(report).toContain("**Round Trip Time**: 180ms (p75)");
+    expect(report).toMatch(/navigate\s+█+░+\s+70\.0%/);
+    expect(report).toMatch(/image\s+█+░+\s+80\.0%/);
+    expect(report).toContain("- Resource load delay: 1400ms ← largest share");
+  });
+});
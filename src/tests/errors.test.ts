@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { CancelledError } from "../cancellation.js";
+import {
+  QuotaError,
+  RateLimitError,
+  UnreachablePageError,
+  UpstreamError,
+  describeFailure,
+  formatFailure,
+  googleErrorMessage,
+  parsePageFailure,
+} from "../errors.js";
+
+describe("parsePageFailure", () => {
+  it.each([
+    ["Lighthouse returned error: FAILED_DOCUMENT_REQUEST. (Details: net::ERR_NAME_NOT_RESOLVED)", "dns-failure"],
+    ["Lighthouse returned error: DNS_FAILURE. DNS servers could not resolve the provided domain.", "dns-failure"],
+    ["Lighthouse returned error: FAILED_DOCUMENT_REQUEST. (Details: net::ERR_CONNECTION_REFUSED)", "unreachable"],
+    ["Lighthouse returned error: ERRORED_DOCUMENT_REQUEST. (Status code: 403)", "captcha"],
+    ["Lighthouse returned error: NO_FCP. The page did not paint any content.", "no-fcp"],
+    ["Lighthouse returned error: PAGE_HUNG. Lighthouse was unable to reliably load the URL you requested because the page stopped responding.", "timeout"],
+    ["The page is blocked by robots.txt", "blocked-by-robots"],
+    ["Lighthouse returned error: something about a CAPTCHA challenge", "captcha"],
+  ])("classifies %s", (text, kind) => {
+    expect(parsePageFailure(text)).toBe(kind);
+  });
+
+  it("returns null for errors that are not about the page", () => {
+    expect(parsePageFailure("Backend Error")).toBeNull();
+  });
+});
+
+describe("googleErrorMessage", () => {
+  it("takes error.message out of a Google JSON body", () => {
+    expect(googleErrorMessage(JSON.stringify({ error: { code: 500, message: "NO_FCP", errors: [{}] } }))).toBe("NO_FCP");
+  });
+
+  it("shortens anything else", () => {
+    expect(googleErrorMessage("<html>\n  <body>Bad Gateway</body>\n</html>")).toBe("<html> <body>Bad Gateway</body> </html>");
+    expect(googleErrorMessage("x".repeat(400))).toHaveLength(301);
+  });
+});
+
+describe("describeFailure", () => {
+  it("carries the kind, status and guidance of an upstream error", () => {
+    expect(describeFailure(new UnreachablePageError("NO_FCP", "psi", 500, "no-fcp"))).toMatchObject({
+      kind: "no-fcp",
+      status: 500,
+      retryable: true,
+      action: "switch-strategy",
+    });
+    expect(describeFailure(new QuotaError("spent", "crux"))).toMatchObject({ kind: "quota", action: "retry-later" });
+    expect(describeFailure(new RateLimitError("429", "psi", null, false))).toMatchObject({ kind: "rate-limited", retryable: true });
+    expect(describeFailure(new RateLimitError("per day", "psi", null, true))).toMatchObject({ kind: "quota", retryable: false });
+    expect(describeFailure(new UpstreamError("bad key", "psi", 400, false, "invalid-api-key")).hint).toContain("GOOGLE_API_KEY");
+  });
+
+  it("falls back to unknown for other errors", () => {
+    expect(describeFailure(new CancelledError())).toMatchObject({ kind: "cancelled", retryable: true });
+    expect(describeFailure(new Error("boom"))).toMatchObject({ kind: "unknown", message: "boom", status: null });
+    expect(describeFailure("nope").message).toBe("Unknown error occurred");
+  });
+});
+
+describe("formatFailure", () => {
+  it("keeps the Error prefix and adds the cause and hint", () => {
+    const text = formatFailure("getting CrUX data", describeFailure(new QuotaError("CrUX daily quota is exhausted", "crux")));
+    expect(text).toBe(
+      "Error getting CrUX data: CrUX daily quota is exhausted\n\n" +
+        "**Cause:** quota (not retryable; suggested action: retry-later)\n" +
+        "**Hint:** The API quota is used up. Wait for it to reset, or add keys from other projects to GOOGLE_API_KEYS."
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import nock from "nock";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const env = vi.hoisted(() => ({
+  GOOGLE_API_KEY: "fixture-secret-key",
+  REQUEST_TIMEOUT: 30000,
+  RETRY_ATTEMPTS: 0,
+  CACHE_TTL: 3600,
+  CACHE_MAX_ENTRIES: 500,
+  CACHE_MAX_BYTES: 256 * 1024 * 1024,
+  PSI_BASE_URL: "https://www.googleapis.com/pagespeedonline/v5",
+  CRUX_BASE_URL: "https://chromeuxreport.googleapis.com/v1",
+  PSI_REQUESTS_PER_MINUTE: 240,
+  CRUX_REQUESTS_PER_MINUTE: 150,
+  PSI_MODE: "record" as "live" | "record" | "replay",
+  FIXTURES_DIR: "",
+  MAX_CONCURRENCY: 3,
+  LOG_LEVEL: "info",
+  NODE_ENV: "test",
+}));
+vi.mock("../env.js", () => ({ getEnv: () => env }));
+
+const { FixtureStore } = await import("../fixtures.js");
+const { PageSpeedClient } = await import("../pagespeed-client.js");
+const { cache } = await import("../cache.js");
+const { UpstreamError } = await import("../errors.js");
+
+const psiResponse = (score: number) => ({
+  lighthouseResult: { categories: { performance: { score } }, audits: {} },
+  analysisUTCTimestamp: "2026-01-01T00:00:00.000Z",
+});
+const input = { url: "https://example.com", strategy: "mobile" as const, category: ["performance"], locale: "en" };
+
+describe("FixtureStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "psi-fixtures-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keys fixtures by parameters, ignoring the key, base URL and parameter order", async () => {
+    const send = vi.fn(async () => ({ status: 200, data: { ok: true } }));
+    const recorder = new FixtureStore("record", dir);
+    await recorder.request(
+      { api: "psi", url: "https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=a&strategy=mobile&key=secret", correlationId: "f-1" },
+      send
+    );
+
+    const player = new FixtureStore("replay", dir);
+    const replayed = await player.request(
+      { api: "psi", url: "http://localhost:8080/v5/runPagespeed?strategy=mobile&url=a", correlationId: "f-2" },
+      send
+    );
+    expect(replayed).toEqual({ status: 200, data: { ok: true } });
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const [file] = readdirSync(dir);
+    expect(file).toMatch(/^psi-runPagespeed-[0-9a-f]{16}\.json$/);
+    expect(readFileSync(join(dir, file), "utf8")).not.toContain("secret");
+  });
+
+  it("fails replay of an unrecorded request without sending it", async () => {
+    const send = vi.fn();
+    const player = new FixtureStore("replay", dir);
+    await expect(
+      player.request({ api: "crux", url: "https://chromeuxreport.googleapis.com/v1/records:queryRecord", body: { url: "https://x.test" }, correlationId: "f-3" }, send)
+    ).rejects.toThrow(UpstreamError);
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe("PageSpeedClient with PSI_MODE", () => {
+  beforeEach(() => {
+    env.FIXTURES_DIR = mkdtempSync(join(tmpdir(), "psi-fixtures-"));
+    nock.cleanAll();
+    cache.clear();
+  });
+
+  afterEach(() => {
+    rmSync(env.FIXTURES_DIR, { recursive: true, force: true });
+    nock.enableNetConnect();
+  });
+
+  it("replays recorded PSI and CrUX answers without network calls", async () => {
+    env.PSI_MODE = "record";
+    nock("https://www.googleapis.com").get("/pagespeedonline/v5/runPagespeed").query(true).reply(200, psiResponse(0.8));
+    nock("https://chromeuxreport.googleapis.com").post("/v1/records:queryRecord").query(true).reply(200, { record: { key: { url: "https://example.com" } } });
+    const recorder = new PageSpeedClient();
+    const live = await recorder.analyzePageSpeed(input, "record-1");
+    const liveCrux = await recorder.getCruxData({ url: "https://example.com" }, "record-2");
+
+    cache.clear();
+    nock.disableNetConnect();
+    env.PSI_MODE = "replay";
+    const player = new PageSpeedClient();
+    expect(await player.analyzePageSpeed(input, "replay-1")).toEqual(live);
+    expect(await player.getCruxData({ url: "https://example.com" }, "replay-2")).toEqual(liveCrux);
+    await expect(player.getCruxData({ url: "https://other.example" }, "replay-3")).rejects.toThrow(/No recorded Chrome UX Report response/);
+  });
+
+  it("replays multirun answers in recorded order without the re-analysis wait", async () => {
+    env.PSI_MODE = "replay";
+    const recorder = new FixtureStore("record", env.FIXTURES_DIR);
+    const url = "https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=https%3A%2F%2Fexample.com&strategy=mobile&locale=en&category=performance";
+    for (const score of [0.5, 0.7, 0.6]) {
+      await recorder.request({ api: "psi", url, correlationId: "seed" }, async () => ({ status: 200, data: psiResponse(score) }));
+    }
+
+    nock.disableNetConnect();
+    const result = await new PageSpeedClient().analyzePageSpeed({ ...input, runs: 3 }, "replay-multirun");
+    expect((result as any).multirun.stats.analyses).toBe(3);
+    expect((result as any).multirun.scores.performance.median).toBe(60);
+  });
+});
@@ -12,6 +12,12 @@ vi.mock("../env.js", () => ({
     REQUEST_TIMEOUT: 30000,
     RETRY_ATTEMPTS: 0,
     CACHE_TTL: 3600,
+    CACHE_MAX_ENTRIES: 500,
+    CACHE_MAX_BYTES: 256 * 1024 * 1024,
+    PSI_BASE_URL: "https://www.googleapis.com/pagespeedonline/v5",
+    CRUX_BASE_URL: "https://chromeuxreport.googleapis.com/v1",
+    PSI_REQUESTS_PER_MINUTE: 240,
+    CRUX_REQUESTS_PER_MINUTE: 150,
     MAX_CONCURRENCY: 3,
     LOG_LEVEL: "info",
     NODE_ENV: "test",
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import nock from "nock";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 const SECRET_KEY = "test-key-handlers";
 
@@ -9,6 +12,12 @@ vi.mock("../env.js", () => ({
     REQUEST_TIMEOUT: 30000,
     RETRY_ATTEMPTS: 0,
     CACHE_TTL: 3600,
+    CACHE_MAX_ENTRIES: 500,
+    CACHE_MAX_BYTES: 256 * 1024 * 1024,
+    PSI_BASE_URL: "https://www.googleapis.com/pagespeedonline/v5",
+    CRUX_BASE_URL: "https://chromeuxreport.googleapis.com/v1",
+    PSI_REQUESTS_PER_MINUTE: 240,
+    CRUX_REQUESTS_PER_MINUTE: 150,
     MAX_CONCURRENCY: 3,
     LOG_LEVEL: "info",
     NODE_ENV: "test",
@@ -29,6 +38,11 @@ vi.mock("../logger.js", () => {
 
 const { PageSpeedInsightsServer } = await import("../index.js");
 const { cache } = await import("../cache.js");
+const { analysisStore } = await import("../analysis-store.js");
+const { saveBaseline, getBaseline } = await import("../baselines.js");
+const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+const { InMemoryTransport } = await import("@modelcontextprotocol/sdk/inMemory.js");
+const { ErrorCode } = await import("@modelcontextprotocol/sdk/types.js");
 
 // Minimal mock of the Lighthouse-shaped response the handlers expect.
 function mockPsiResponse(opts: { score?: number; lcp?: string } = {}) {
@@ -108,14 +122,14 @@ function mockPsiResponse(opts: { score?: number; lcp?: string } = {}) {
 }
 
 type TextContent = { type: "text"; text: string };
-type HandlerResult = { content: TextContent[]; isError?: boolean };
+type ResourceLinkContent = { type: "resource_link"; uri: string; name: string };
+type HandlerResult = { content: [TextContent, ...Array<TextContent | ResourceLinkContent>]; isError?: boolean };
 
-// Cast helpers so we can call the private handler methods directly. Each
-// handler is exercised the same way the SDK dispatch would, just without
-// going through the schema-driven request router.
+// Cast helper so we can call the private dispatcher directly: arguments are
+// validated and routed exactly as for a tools/call request, just without a
+// transport in between.
 function callHandler(server: unknown, name: string, args: unknown): Promise<HandlerResult> {
-  const fn = (server as any)[name].bind(server);
-  return fn(args);
+  return (server as any).dispatchTool(name, args);
 }
 
 describe("PageSpeedInsightsServer handlers", () => {
@@ -125,6 +139,7 @@ describe("PageSpeedInsightsServer handlers", () => {
     server = new PageSpeedInsightsServer();
     nock.cleanAll();
     cache.clear();
+    analysisStore.clear();
   });
 
   describe("handleAnalyzePageSpeed", () => {
@@ -134,7 +149,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query(true)
         .reply(200, mockPsiResponse({ score: 0.85 }));
 
-      const result = await callHandler(server, "handleAnalyzePageSpeed", {
+      const result = await callHandler(server, "analyze_page_speed", {
         url: "https://example.com",
         strategy: "mobile",
       });
@@ -153,7 +168,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query(true)
         .reply(500, { error: { message: "boom" } });
 
-      const result = await callHandler(server, "handleAnalyzePageSpeed", {
+      const result = await callHandler(server, "analyze_page_speed", {
         url: "https://example.com",
         strategy: "mobile",
       });
@@ -162,8 +177,35 @@ describe("PageSpeedInsightsServer handlers", () => {
       expect(result.content[0].text).toMatch(/Error analyzing page speed/);
     });
 
+    it("explains a Lighthouse runtime error instead of echoing Google's JSON", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .reply(500, {
+          error: {
+            code: 500,
+            message: "Lighthouse returned error: FAILED_DOCUMENT_REQUEST. Lighthouse was unable to reliably load the page you requested. (Details: net::ERR_NAME_NOT_RESOLVED)",
+            errors: [{ message: "Lighthouse returned error: FAILED_DOCUMENT_REQUEST", domain: "lighthouse", reason: "lighthouseUserError" }],
+            status: "INTERNAL",
+          },
+        });
+
+      const result = await callHandler(server, "analyze_page_speed", {
+        url: "https://no-such-host.example",
+        strategy: "mobile",
+      });
+
+      expect(result.isError).toBe(true);
+      const text = result.content[0].text;
+      expect(text).toContain("Error analyzing page speed: PSI API error: 500 Internal Server Error - Lighthouse returned error: FAILED_DOCUMENT_REQUEST");
+      expect(text).not.toContain("lighthouseUserError");
+      expect(text).toContain("**Cause:** dns-failure (not retryable; suggested action: fix-input)");
+      expect(text).toContain("**Hint:** The domain name does not resolve.");
+      expect(result._meta?.failure).toMatchObject({ kind: "dns-failure", action: "fix-input", retryable: false });
+    });
+
     it("rejects non-http(s) URLs at the schema boundary", async () => {
-      const result = await callHandler(server, "handleAnalyzePageSpeed", {
+      const result = await callHandler(server, "analyze_page_speed", {
         url: "file:///etc/passwd",
         strategy: "mobile",
       });
@@ -171,6 +213,23 @@ describe("PageSpeedInsightsServer handlers", () => {
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain("Error");
     });
+
+    it("says in the header whether the result came from the cache", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .once()
+        .reply(200, mockPsiResponse());
+
+      const first = await callHandler(server, "analyze_page_speed", { url: "https://example.com" });
+      const second = await callHandler(server, "analyze_page_speed", { url: "https://example.com" });
+
+      expect(first.content[0].text).toContain("**Data Source:** new analysis (Lighthouse run");
+      expect(second.content[0].text).toMatch(/\*\*Data Source:\*\* ⚠️ served from cache, Lighthouse run [\d.]+ h old; use freshness "force-refresh"/);
+      expect((second as any).structuredContent.dataSource).toEqual([
+        expect.objectContaining({ strategy: "mobile", servedFromCache: true, fetchTime: "2026-01-01T00:00:00Z" }),
+      ]);
+    });
   });
 
   describe("handlePerformanceSummary", () => {
@@ -180,7 +239,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query(true)
         .reply(200, mockPsiResponse({ score: 0.7 }));
 
-      const result = await callHandler(server, "handlePerformanceSummary", {
+      const result = await callHandler(server, "get_performance_summary", {
         url: "https://example.com",
         strategy: "mobile",
       });
@@ -200,7 +259,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query(true)
         .reply(200, mockPsiResponse({ score: 0.85, lcp: "2.5 s" }));
 
-      const result = await callHandler(server, "handlePerformanceMap", {
+      const result = await callHandler(server, "get_performance_map", {
         url: "https://example.com",
         strategy: "mobile",
       });
@@ -226,7 +285,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query((q) => q.url === "https://b.example.com")
         .reply(200, mockPsiResponse({ score: 0.6, lcp: "3.5 s" }));
 
-      const result = await callHandler(server, "handleComparePages", {
+      const result = await callHandler(server, "compare_pages", {
         urlA: "https://a.example.com",
         urlB: "https://b.example.com",
         strategy: "mobile",
@@ -257,7 +316,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query((q) => q.url === "https://broken.example.com")
         .reply(500, { error: { message: "boom" } });
 
-      const result = await callHandler(server, "handleBatchAnalyze", {
+      const result = await callHandler(server, "batch_analyze", {
         urls: ["https://ok.example.com", "https://broken.example.com"],
         strategy: "mobile",
       });
@@ -273,6 +332,70 @@ describe("PageSpeedInsightsServer handlers", () => {
       expect(parsed.results[1].url).toBe("https://broken.example.com");
       expect(parsed.results[1].error).toBeTruthy();
     });
+
+    it("reports per-call progress counted in URLs, without mixing parallel calls", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .times(5)
+        .reply(200, mockPsiResponse());
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: "test", version: "0.0.0" });
+      await (server as any).server.connect(serverTransport);
+      await client.connect(clientTransport);
+      try {
+        const seen: Record<string, Array<{ progress: number; total?: number; message?: string }>> = { a: [], b: [] };
+        await Promise.all([
+          client.callTool(
+            { name: "batch_analyze", arguments: { urls: ["https://a1.example.com", "https://a2.example.com"] } },
+            undefined,
+            { onprogress: (p) => seen.a.push(p) }
+          ),
+          client.callTool(
+            {
+              name: "batch_analyze",
+              arguments: { urls: ["https://b1.example.com", "https://b2.example.com", "https://b3.example.com"] },
+            },
+            undefined,
+            { onprogress: (p) => seen.b.push(p) }
+          ),
+        ]);
+
+        expect(seen.a.every((p) => p.total === 2)).toBe(true);
+        expect(seen.b.every((p) => p.total === 3)).toBe(true);
+        expect(seen.a.at(-1)).toMatchObject({ progress: 2, message: "URL 2/2 analyzed: https://a2.example.com" });
+        expect(seen.b.at(-1)).toMatchObject({ progress: 3, message: "URL 3/3 analyzed: https://b3.example.com" });
+      } finally {
+        await client.close();
+      }
+    });
+
+    it("stops at the next URL once the request is cancelled", async () => {
+      const controller = new AbortController();
+      const first = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query((q) => q.url === "https://one.example.com")
+        .reply(200, () => {
+          controller.abort();
+          return mockPsiResponse();
+        });
+      const second = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query((q) => q.url === "https://two.example.com")
+        .reply(200, mockPsiResponse());
+
+      const result: HandlerResult = await (server as any).dispatchTool(
+        "batch_analyze",
+        { urls: ["https://one.example.com", "https://two.example.com"] },
+        { signal: controller.signal }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Request cancelled");
+      expect(first.isDone()).toBe(true);
+      expect(second.isDone()).toBe(false);
+    });
   });
 
   describe("handleClearCache", () => {
@@ -281,13 +404,114 @@ describe("PageSpeedInsightsServer handlers", () => {
       cache.set("psi:bar", { x: 2 }, 60_000);
       expect(cache.size()).toBe(2);
 
-      const result = await callHandler(server, "handleClearCache", undefined);
+      const result = await callHandler(server, "clear_cache", undefined);
 
       expect(result.isError).toBeFalsy();
       expect(result.content[0].text).toContain("Cache cleared successfully");
       expect(result.content[0].text).toContain("2 cached entries");
       expect(cache.size()).toBe(0);
     });
+
+    it("clears only the entries matching the filters", async () => {
+      cache.set("psi:https://example.com/a:mobile:performance:en", { x: 1 }, 60_000);
+      cache.set("psi:https://example.com/a:desktop:performance:en", { x: 2 }, 60_000);
+      cache.set("crux:https://example.com/a:default", { x: 3 }, 60_000);
+
+      const result = await callHandler(server, "clear_cache", { url_pattern: "https://example.com/*", strategy: "mobile" });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain("Removed 1 cached entries matching URL https://example.com/*, strategy mobile. 2 entries remain.");
+      expect(cache.get("psi:https://example.com/a:desktop:performance:en")).toEqual({ x: 2 });
+    });
+  });
+
+  describe("handleCacheStats", () => {
+    it("lists cached entries with their request parameters", async () => {
+      cache.set("psi:https://example.com:mobile:performance,seo:en", { x: 1 }, 60_000);
+      cache.get("psi:https://example.com:mobile:performance,seo:en");
+
+      const result = await callHandler(server, "cache_stats", {});
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain("**Entries:** 1 / 500");
+      expect(result.content[0].text).toContain("| psi | https://example.com | mobile | performance, seo | 0s | 0.0 KB | 1m |");
+      expect((result as any).structuredContent.items[0]).toMatchObject({ url: "https://example.com", strategy: "mobile", sizeBytes: 7 });
+    });
+  });
+
+  describe("named baselines", () => {
+    let dir: string;
+    const spread = (median: number, min: number, max: number) => ({ median, min, max });
+    const multirun = (median: number, min: number, max: number) => ({
+      scores: { performance: spread(median, min, max) },
+      metrics: { "total-blocking-time": spread(1000 - median * 10, 1000 - max * 10, 1000 - min * 10) },
+    });
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "psi-baseline-"));
+      process.env.PAGESPEED_BASELINES_DIR = dir;
+    });
+    afterEach(() => {
+      delete process.env.PAGESPEED_BASELINES_DIR;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("compare_to compares two saved snapshots without calling PSI", async () => {
+      saveBaseline("https://example.com", "mobile", multirun(30, 27, 37) as any, "12.0.0", "main");
+      saveBaseline("https://example.com", "mobile", multirun(60, 55, 65) as any, "12.0.0", "feature/lazy-images");
+
+      const result = await callHandler(server, "compare_baseline", {
+        url: "https://example.com",
+        baseline_name: "main",
+        compare_to: "feature/lazy-images",
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content).toHaveLength(1);
+      expect(result.content[0].text).toContain("# Baseline comparison: main → feature/lazy-images");
+      const structured = (result as any).structuredContent;
+      expect(structured).toMatchObject({ mode: "saved", baselineName: "main", comparedTo: "feature/lazy-images" });
+      expect(structured.verdicts.find((v: any) => v.metric === "performance").verdict).toBe("improved");
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+
+    it("compare_to names the snapshot that is missing", async () => {
+      saveBaseline("https://example.com", "mobile", multirun(30, 27, 37) as any, "12.0.0", "main");
+
+      const result = await callHandler(server, "compare_baseline", { url: "https://example.com", baseline_name: "main", compare_to: "release-2" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No saved baseline "release-2" for https://example.com (mobile)');
+      expect(result.content[0].text).toContain("**Cause:** no-baseline (not retryable; suggested action: fix-input)");
+    });
+
+    it("list_baselines and delete_baseline manage saved snapshots", async () => {
+      saveBaseline("https://example.com", "mobile", multirun(30, 27, 37) as any, "12.0.0");
+      saveBaseline("https://example.com", "mobile", multirun(60, 55, 65) as any, "12.0.0", "release-2");
+
+      const listed = await callHandler(server, "list_baselines", { url: "https://example.com" });
+      expect(listed.content[0].text).toContain("| https://example.com | mobile | release-2 |");
+      expect((listed as any).structuredContent.baselines).toHaveLength(2);
+
+      const deleted = await callHandler(server, "delete_baseline", { url: "https://example.com", baseline_name: "release-2" });
+      expect(deleted.content[0].text).toContain("Deleted baseline");
+      expect((deleted as any).structuredContent).toEqual({ deleted: true, remaining: 1 });
+      expect(getBaseline("https://example.com", "mobile")).not.toBeNull();
+
+      const again = await callHandler(server, "delete_baseline", { url: "https://example.com", baseline_name: "release-2" });
+      expect((again as any).structuredContent).toEqual({ deleted: false, remaining: 1 });
+    });
+
+    it("lists a baseline named after a strategy under its own URL, strategy and name", async () => {
+      saveBaseline("https://example.com", "mobile", multirun(30, 27, 37) as any, "12.0.0", "desktop");
+
+      const listed = await callHandler(server, "list_baselines", { url: "https://example.com" });
+
+      expect((listed as any).structuredContent.baselines).toMatchObject([
+        { url: "https://example.com", strategy: "mobile", name: "desktop" },
+      ]);
+      expect(listed.content[0].text).toContain("| https://example.com | mobile | desktop |");
+    });
   });
 
   describe("handleCruxSummary", () => {
@@ -297,7 +521,7 @@ describe("PageSpeedInsightsServer handlers", () => {
         .query(true)
         .reply(200, {}); // empty body => no record
 
-      const result = await callHandler(server, "handleCruxSummary", {
+      const result = await callHandler(server, "crux_summary", {
         url: "https://example.com",
       });
 
@@ -325,7 +549,7 @@ describe("PageSpeedInsightsServer handlers", () => {
           },
         });
 
-      const result = await callHandler(server, "handleCruxSummary", {
+      const result = await callHandler(server, "crux_summary", {
         url: "https://example.com",
         formFactor: "PHONE",
       });
@@ -352,7 +576,7 @@ describe("PageSpeedInsightsServer handlers", () => {
           },
         });
 
-      const result = await callHandler(server, "handleGetOriginCrux", {
+      const result = await callHandler(server, "get_origin_crux", {
         origin: "https://example.com",
       });
 
@@ -362,4 +586,296 @@ describe("PageSpeedInsightsServer handlers", () => {
       expect(result.content[0].text).toContain("1800ms");
     });
   });
+
+  describe("handleFullReport", () => {
+    it("explains a high lab score next to failing field vitals", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .reply(200, mockPsiResponse({ score: 0.95 }));
+      nock("https://chromeuxreport.googleapis.com")
+        .post("/v1/records:queryRecord")
+        .query(true)
+        .reply(200, {
+          record: {
+            key: { url: "https://example.com" },
+            metrics: {
+              largest_contentful_paint: { percentiles: { p75: 2300 } },
+              interaction_to_next_paint: { percentiles: { p75: 350 } },
+              cumulative_layout_shift: { percentiles: { p75: "0.05" } },
+            },
+          },
+        });
+
+      const result = await callHandler(server, "full_report", { url: "https://example.com" });
+
+      expect(result.isError).toBeFalsy();
+      const text = result.content[0].text;
+      expect(text).toContain("## Lab vs Field Comparison");
+      expect(text).toContain("| INP | TBT 50ms | good | INP 350ms | needs-improvement | ⚠️ lab passes, field fails |");
+      expect(text).toContain("Why a 95 lab score can sit next to a failing field assessment");
+      expect(text).toContain("**INP** (TBT vs INP) is good in the lab but not for real users");
+      expect((result as any).structuredContent.labVsField).toMatchObject({ performanceScore: 95, fieldPassed: false, discrepancies: 1 });
+    });
+  });
+
+  describe("handleCruxHistory", () => {
+    it("queries the History API for an origin and reports threshold crossings", async () => {
+      let body: any;
+      nock("https://chromeuxreport.googleapis.com")
+        .post("/v1/records:queryHistoryRecord", (b) => {
+          body = b;
+          return true;
+        })
+        .query(true)
+        .reply(200, {
+          record: {
+            key: { origin: "https://example.com" },
+            metrics: {
+              interaction_to_next_paint: { percentilesTimeseries: { p75s: [180, 190, 240] } },
+            },
+            collectionPeriods: [1, 8, 15].map((day) => ({
+              firstDate: { year: 2026, month: 1, day },
+              lastDate: { year: 2026, month: 2, day },
+            })),
+          },
+        });
+
+      const result = (await callHandler(server, "crux_history", {
+        origin: "https://example.com",
+        periods: 3,
+        chart: "mermaid",
+      })) as HandlerResult & { structuredContent: any };
+
+      expect(result.isError).toBeFalsy();
+      expect(body).toEqual({ origin: "https://example.com", collectionPeriodCount: 3 });
+      expect(result.content[0].text).toContain("xychart-beta");
+      expect(result.content[0].text).toContain("**INP** regressed: good → needs-improvement");
+      expect(result.structuredContent).toMatchObject({
+        target: "https://example.com",
+        targetType: "origin",
+        hasData: true,
+        crossings: [{ label: "INP", periodEnd: "2026-02-15", previous: 190, current: 240 }],
+      });
+    });
+
+    it("treats a 404 as no history", async () => {
+      nock("https://chromeuxreport.googleapis.com")
+        .post("/v1/records:queryHistoryRecord")
+        .query(true)
+        .reply(404, { error: { code: 404, message: "chrome ux report data not found" } });
+
+      const result = await callHandler(server, "crux_history", { url: "https://example.com/quiet" });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain("No field data available");
+    });
+
+    it("requires exactly one of url or origin", async () => {
+      const result = await callHandler(server, "crux_history", {
+        url: "https://example.com",
+        origin: "https://example.com",
+      });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Pass exactly one of url or origin");
+    });
+  });
+
+  describe("stored analyses", () => {
+    it("answers drill-down tools from an analysisId without another PSI call", async () => {
+      const scope = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .once()
+        .reply(200, mockPsiResponse({ score: 0.85 }));
+
+      const first = await callHandler(server, "analyze_page_speed", {
+        url: "https://example.com",
+        strategy: "mobile",
+      });
+      const link = first.content.find((c): c is ResourceLinkContent => c.type === "resource_link")!;
+      const analysisId = link.uri.split("/")[3];
+      expect(first.content[0].text).toContain(analysisId);
+
+      // The cache is cleared so a second fetch would need a new nock interceptor.
+      cache.clear();
+      const result = await callHandler(server, "get_network_analysis", { analysisId });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0].text).toContain("# Network Waterfall Analysis");
+      expect(result.content[0].text).toContain("https://example.com");
+      expect(scope.isDone()).toBe(true);
+    });
+
+    it("rejects a drill-down with neither url nor analysisId", async () => {
+      const result = await callHandler(server, "get_visual_analysis", { strategy: "mobile" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Either url or analysisId is required");
+    });
+
+    it("validates drill-down arguments against the tool schema", async () => {
+      const result = await callHandler(server, "get_network_analysis", { url: "https://example.com", strategy: "tablet" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("invalid arguments for get_network_analysis");
+      expect(result.content[0].text).toContain("strategy:");
+      expect(result._meta?.failure?.kind).toBe("invalid-input");
+    });
+
+    it("reports an unknown analysisId", async () => {
+      const result = await callHandler(server, "get_element_analysis", { analysisId: "nope" });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Unknown analysisId");
+      expect(result.content[0].text).toContain("**Cause:** unknown-analysis (not retryable; suggested action: fix-input)");
+      expect(result._meta?.failure?.kind).toBe("unknown-analysis");
+    });
+
+    it("publishes stored analyses through resources/list and resources/read", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .reply(200, mockPsiResponse({ score: 0.85 }));
+      await callHandler(server, "analyze_page_speed", { url: "https://example.com" });
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: "test", version: "0.0.0" });
+      await (server as any).server.connect(serverTransport);
+      await client.connect(clientTransport);
+      try {
+        const { resources } = await client.listResources();
+        expect(resources).toHaveLength(1);
+        expect(resources[0].uri).toMatch(/^psi:\/\/analysis\/[^/]+\/lighthouse\.json$/);
+
+        const full = await client.readResource({ uri: resources[0].uri });
+        expect(JSON.parse((full.contents[0] as { text: string }).text).lighthouseVersion).toBe("12.0.0");
+
+        const auditUri = resources[0].uri.replace("lighthouse.json", "audits/largest-contentful-paint");
+        const audit = await client.readResource({ uri: auditUri });
+        expect(JSON.parse((audit.contents[0] as { text: string }).text).displayValue).toBe("2.5 s");
+
+        await expect(
+          client.readResource({ uri: resources[0].uri.replace("lighthouse.json", "audits/no-such-audit") })
+        ).rejects.toThrow(/not found/);
+        await expect(
+          client.readResource({ uri: resources[0].uri.replace("lighthouse.json", "audits/%E0") })
+        ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      } finally {
+        await client.close();
+      }
+    });
+  });
+
+  describe("prompts", () => {
+    it("lists the workflows and renders one with its arguments", async () => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: "test", version: "0.0.0" });
+      await (server as any).server.connect(serverTransport);
+      await client.connect(clientTransport);
+      try {
+        const { prompts } = await client.listPrompts();
+        expect(prompts.map((p) => p.name)).toContain("diagnose-slow-lcp");
+
+        const prompt = await client.getPrompt({
+          name: "diagnose-slow-lcp",
+          arguments: { url: "https://example.com", strategy: "mobile" },
+        });
+        expect((prompt.messages[0].content as TextContent).text).toContain("get_element_analysis");
+
+        await expect(
+          client.getPrompt({ name: "diagnose-slow-lcp", arguments: { url: "not a url" } })
+        ).rejects.toThrow(/Invalid arguments/);
+      } finally {
+        await client.close();
+      }
+    });
+  });
+
+  describe("structured output", () => {
+    it("returns structuredContent matching every advertised outputSchema", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .times(4)
+        .reply(200, () => mockPsiResponse({ score: 0.85 }));
+      nock("https://chromeuxreport.googleapis.com")
+        .post("/v1/records:queryRecord")
+        .query(true)
+        .times(3)
+        .reply(200, {
+          record: {
+            key: { url: "https://example.com", formFactor: "PHONE" },
+            metrics: {
+              largest_contentful_paint: {
+                histogram: [{ start: 0, end: 2500, density: 0.8 }, { start: 2500, density: 0.2 }],
+                percentiles: { p75: 2200 },
+              },
+              cumulative_layout_shift: { histogram: [], percentiles: { p75: "0.05" } },
+            },
+          },
+        });
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: "test", version: "0.0.0" });
+      await (server as any).server.connect(serverTransport);
+      await client.connect(clientTransport);
+      try {
+        // listTools primes the client's outputSchema validators; callTool
+        // then rejects any structuredContent that does not match.
+        const { tools } = await client.listTools();
+        expect(tools.every((t) => t.outputSchema?.type === "object")).toBe(true);
+        // Input objects stay open, like the outputs
+        expect(tools.filter((t) => t.inputSchema.additionalProperties === false).map((t) => t.name)).toEqual([]);
+        const analyzeTool = tools.find((t) => t.name === "analyze_page_speed");
+        expect(analyzeTool?.inputSchema.properties).toHaveProperty("runs");
+        expect(analyzeTool?.inputSchema.required).toEqual(["url"]);
+
+        const call = async (name: string, args: Record<string, unknown>) => {
+          const result = await client.callTool({ name, arguments: args });
+          expect(result.isError, `${name}: ${JSON.stringify(result.content)}`).toBeFalsy();
+          expect(result.structuredContent).toBeDefined();
+          return result.structuredContent as Record<string, any>;
+        };
+
+        const analysis = await call("analyze_page_speed", { url: "https://example.com" });
+        expect(analysis.scores.performance).toBe(85);
+        expect(analysis.metrics["largest-contentful-paint"].numericValue).toBe(2500);
+        const { analysisId } = analysis;
+
+        for (const name of [
+          "get_visual_analysis",
+          "get_element_analysis",
+          "get_network_analysis",
+          "get_javascript_analysis",
+          "get_image_optimization_details",
+          "get_render_blocking_details",
+          "get_third_party_impact",
+          "get_full_audit",
+        ]) {
+          const drill = await call(name, { analysisId });
+          expect(drill.analysisId).toBe(analysisId);
+        }
+
+        expect((await call("get_performance_summary", { url: "https://example.com" })).performance.score).toBe(85);
+        expect((await call("get_performance_map", { url: "https://example.com" })).mermaid).toContain("graph TD");
+        expect((await call("get_recommendations", { url: "https://example.com" })).analysisId).toBeTruthy();
+        expect((await call("crux_summary", { url: "https://example.com" })).metrics.largest_contentful_paint.p75).toBe(2200);
+        expect((await call("get_origin_crux", { origin: "https://example.com" })).hasData).toBe(true);
+
+        const report = await call("full_report", { url: "https://example.com" });
+        expect(report.lab.analysisId).toBeTruthy();
+        expect(report.field.formFactor).toBe("PHONE");
+        expect(report.labVsField.pairs.find((p: any) => p.metric === "LCP").agreement).toBe("both-pass");
+
+        const compare = await call("compare_pages", { urlA: "https://a.example.com", urlB: "https://b.example.com" });
+        expect(compare.comparison.scores.difference).toBe(0);
+
+        const batch = await call("batch_analyze", { urls: ["https://example.com"] });
+        expect(batch.summary.successful).toBe(1);
+
+        expect((await call("cache_stats", {})).entries).toBeGreaterThan(0);
+        expect((await call("clear_cache", {})).clearedEntries).toBeGreaterThan(0);
+      } finally {
+        await client.close();
+      }
+    });
+  });
 });
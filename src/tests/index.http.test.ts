@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { request } from "http";
+import type { AddressInfo } from "net";
+
+const env = vi.hoisted(() => ({
+  GOOGLE_API_KEY: "test-key-http",
+  REQUEST_TIMEOUT: 30000,
+  RETRY_ATTEMPTS: 0,
+  CACHE_TTL: 3600,
+  CACHE_MAX_ENTRIES: 500,
+  CACHE_MAX_BYTES: 256 * 1024 * 1024,
+  PSI_BASE_URL: "https://www.googleapis.com/pagespeedonline/v5",
+  CRUX_BASE_URL: "https://chromeuxreport.googleapis.com/v1",
+  PSI_REQUESTS_PER_MINUTE: 240,
+  CRUX_REQUESTS_PER_MINUTE: 150,
+  MAX_CONCURRENCY: 3,
+  LOG_LEVEL: "info",
+  NODE_ENV: "test",
+  TRANSPORT: "http",
+  PORT: 0, // let the OS pick a free port
+  HOST: "127.0.0.1",
+  ALLOWED_HOSTS: [] as string[],
+  HTTP_SESSION_IDLE_MS: 60_000,
+}));
+vi.mock("../env.js", () => ({ getEnv: () => env, validateEnv: () => {} }));
+
+vi.mock("../logger.js", () => {
+  const fakeChild = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: () => fakeChild,
+  };
+  return { getLogger: () => fakeChild, createRequestLogger: () => fakeChild };
+});
+
+const { PageSpeedInsightsServer } = await import("../index.js");
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "raw", version: "0.0.0" } },
+});
+
+// fetch() will not send a forged Host header, so these go through http.request.
+function post(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: string; sessionId?: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode!, body: text, sessionId: res.headers["mcp-session-id"] as string | undefined })
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+describe("PageSpeedInsightsServer over Streamable HTTP", () => {
+  let server: InstanceType<typeof PageSpeedInsightsServer>;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = new PageSpeedInsightsServer();
+    await server.start();
+    const { port } = (server as any).httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it("answers the health check", async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: "ok" });
+  });
+
+  it("serves independent sessions that each list the tools", async () => {
+    const clients = [new Client({ name: "a", version: "0.0.0" }), new Client({ name: "b", version: "0.0.0" })];
+    try {
+      for (const client of clients) {
+        await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+      }
+      const [listA, listB] = await Promise.all(clients.map((c) => c.listTools()));
+      expect(listA.tools.map((t) => t.name)).toContain("analyze_page_speed");
+      expect(listB.tools).toHaveLength(listA.tools.length);
+      expect((server as any).httpSessions.size).toBe(2);
+    } finally {
+      await Promise.all(clients.map((c) => c.close()));
+    }
+  });
+
+  it("rejects a non-initialize request without a session", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for an unknown session id", async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": "no-such-session",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("answers malformed JSON with a JSON-RPC parse error", async () => {
+    const res = await post(`${baseUrl}/mcp`, "{not json");
+    expect(res.status).toBe(400);
+    expect(JSON.parse(res.body).error.code).toBe(-32700);
+  });
+
+  it("refuses a request body over the size limit", async () => {
+    const res = await post(`${baseUrl}/mcp`, JSON.stringify({ padding: "x".repeat(5 * 1024 * 1024) }));
+    expect(res.status).toBe(413);
+  });
+
+  it("refuses a Host header it does not serve (DNS rebinding)", async () => {
+    const res = await post(`${baseUrl}/mcp`, INITIALIZE, { Host: "attacker.example:80" });
+    expect(res.status).toBe(403);
+    expect(res.body).toContain("Invalid Host header");
+  });
+});
+
+describe("HTTP session lifetime", () => {
+  let server: InstanceType<typeof PageSpeedInsightsServer>;
+  let baseUrl: string;
+
+  async function start(idleMs: number) {
+    env.HTTP_SESSION_IDLE_MS = idleMs;
+    server = new PageSpeedInsightsServer();
+    await server.start();
+    const { port } = (server as any).httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  afterEach(async () => {
+    env.HTTP_SESSION_IDLE_MS = 60_000;
+    await server.stop();
+  });
+
+  it("closes a session that sees no requests for the idle timeout", async () => {
+    await start(100);
+    const { status, sessionId } = await post(`${baseUrl}/mcp`, INITIALIZE);
+    expect(status).toBe(200);
+    expect((server as any).httpSessions.has(sessionId)).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect((server as any).httpSessions.size).toBe(0);
+    const res = await post(`${baseUrl}/mcp`, JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }), {
+      "Mcp-Session-Id": sessionId!,
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("keeps a session with an open stream alive past the idle timeout", async () => {
+    await start(100);
+    const client = new Client({ name: "a", version: "0.0.0" });
+    try {
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("closes the Server and transport of every remaining session on stop", async () => {
+    await start(60_000);
+    const client = new Client({ name: "a", version: "0.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const [session] = (server as any).httpSessions.values();
+    const onclose = vi.fn();
+    session.server.onclose = onclose;
+
+    await server.stop();
+
+    expect(onclose).toHaveBeenCalled();
+    expect((server as any).httpSessions.size).toBe(0);
+    await client.close();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { compareLabField, formatLabFieldComparison } from "../lab-field.js";
+import type { PageSpeedInsightsResponse } from "../types.js";
+
+function psi(score: number, values: Record<string, number>): PageSpeedInsightsResponse {
+  const audits = Object.fromEntries(
+    Object.entries(values).map(([id, numericValue]) => [id, { id, title: id, description: "", score: null, scoreDisplayMode: "numeric", numericValue }])
+  );
+  return {
+    lighthouseResult: { categories: { performance: { id: "performance", title: "Performance", score, auditRefs: [] } }, audits },
+  } as unknown as PageSpeedInsightsResponse;
+}
+
+function crux(metrics: Record<string, unknown>) {
+  return { record: { key: { url: "https://example.com" }, metrics } };
+}
+
+const lab = psi(0.95, {
+  "largest-contentful-paint": 1900,
+  "total-blocking-time": 40,
+  "cumulative-layout-shift": 0.3,
+  "first-contentful-paint": 1200,
+  "server-response-time": 120,
+});
+
+describe("compareLabField", () => {
+  it("returns null without a CrUX record", () => {
+    expect(compareLabField(lab, {}, "mobile")).toBeNull();
+  });
+
+  it("rates each pair and flags disagreements in both directions", () => {
+    const comparison = compareLabField(
+      lab,
+      crux({
+        largest_contentful_paint: { percentiles: { p75: 3200 } },
+        interaction_to_next_paint: { percentiles: { p75: 150 } },
+        cumulative_layout_shift: { percentiles: { p75: "0.02" } },
+      }),
+      "mobile"
+    )!;
+
+    expect(comparison).toMatchObject({ performanceScore: 95, fieldPassed: false, discrepancies: 2 });
+    const byMetric = Object.fromEntries(comparison.pairs.map((p) => [p.metric, p]));
+    expect(byMetric.LCP).toMatchObject({
+      lab: { metric: "LCP", value: 1900, rating: "good" },
+      field: { metric: "LCP", p75: 3200, rating: "needs-improvement" },
+      agreement: "lab-pass-field-fail",
+    });
+    expect(byMetric.INP).toMatchObject({ lab: { metric: "TBT" }, agreement: "both-pass", likelyCauses: [] });
+    expect(byMetric.CLS.agreement).toBe("lab-fail-field-pass");
+    expect(byMetric.TTFB).toMatchObject({ field: null, agreement: null });
+  });
+
+  it("cites latency and device mix from the CrUX record", () => {
+    const comparison = compareLabField(
+      lab,
+      crux({
+        largest_contentful_paint: { percentiles: { p75: 3200 } },
+        cumulative_layout_shift: { percentiles: { p75: "0.02" } },
+        round_trip_time: { percentiles: { p75: 240 } },
+        form_factors: { fractions: { desktop: 0.6, phone: 0.4 } },
+      }),
+      "mobile"
+    )!;
+    const [lcp, , cls] = comparison.pairs;
+    expect(lcp.likelyCauses).toContainEqual(expect.stringContaining("real visitors see a 240ms round trip at p75"));
+    expect(cls.likelyCauses).toContainEqual(expect.stringContaining("60% of field visits are on desktop"));
+  });
+});
+
+describe("formatLabFieldComparison", () => {
+  const comparison = compareLabField(
+    lab,
+    crux({
+      largest_contentful_paint: { percentiles: { p75: 3200 } },
+      cumulative_layout_shift: { percentiles: { p75: "0.02" } },
+    }),
+    "mobile"
+  )!;
+  const report = formatLabFieldComparison(comparison);
+
+  it("lays the pairs out side by side", () => {
+    expect(report).toContain("| LCP | LCP 1900ms | good | LCP 3200ms | needs-improvement | ⚠️ lab passes, field fails |");
+    expect(report).toContain("| CLS | CLS 0.30 | poor | CLS 0.02 | good | ℹ️ lab fails, field passes |");
+    expect(report).toContain("| TTFB | Server response 120ms | good | n/a | n/a | not comparable |");
+  });
+
+  it("explains a high lab score with a failing field assessment", () => {
+    expect(report).toContain("Why a 95 lab score can sit next to a failing field assessment");
+    expect(report).toContain("**LCP** (LCP vs LCP) is good in the lab but not for real users. Likely causes:");
+    expect(report).toContain("Returning visitors already have fonts and images cached");
+  });
+
+  it("says so when lab and field agree", () => {
+    const agreeing = compareLabField(lab, crux({ first_contentful_paint: { percentiles: { p75: 1500 } } }), "mobile")!;
+    expect(formatLabFieldComparison(agreeing)).toContain("Lab and field agree on every metric measured on both sides.");
+  });
+});
@@ -1,5 +1,16 @@
 import { describe, it, expect } from "vitest";
-import { dedupRuns, median, spread, summariseMultirun } from "../multirun.js";
+import {
+  bootstrapMedianCI,
+  coefficientOfVariation,
+  dedupRuns,
+  median,
+  medianAbsoluteDeviation,
+  quantile,
+  samplingDecision,
+  spread,
+  summariseMultirun,
+  tukeyOutliers,
+} from "../multirun.js";
 
 const run = (stamp: string, score = 50, tbt = 300) => ({
   lighthouseResult: {
@@ -34,15 +45,93 @@ describe("median/spread", () => {
     expect(median([1, 2, 3, 4])).toBe(2.5);
   });
   it("spread returns min/max around median", () => {
-    expect(spread([5, 1, 9])).toEqual({ median: 5, min: 1, max: 9 });
+    expect(spread([5, 1, 9])).toMatchObject({ median: 5, min: 1, max: 9 });
+  });
+});
+
+describe("robust statistics", () => {
+  it("interpolates quartiles between ranks", () => {
+    expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75);
+    expect(quantile([20, 50, 51, 52, 53], 0.75)).toBe(52);
+  });
+
+  it("measures dispersion without letting one run dominate", () => {
+    expect(medianAbsoluteDeviation([20, 50, 51, 52, 53])).toBe(1);
+    expect(coefficientOfVariation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(Math.sqrt(32 / 7) / 5);
+    expect(coefficientOfVariation([0, 0])).toBeNull();
+  });
+
+  it("gives a reproducible bootstrap interval around the median", () => {
+    const values = [310, 280, 450, 300, 295];
+    const ci = bootstrapMedianCI(values);
+    expect(ci.low).toBeLessThanOrEqual(median(values));
+    expect(ci.high).toBeGreaterThanOrEqual(median(values));
+    expect(ci.low).toBeGreaterThanOrEqual(280);
+    expect(ci.high).toBeLessThanOrEqual(450);
+    expect(bootstrapMedianCI(values)).toEqual(ci);
+    expect(bootstrapMedianCI([42])).toEqual({ low: 42, high: 42 });
+  });
+
+  it("flags values outside Tukey's fences, given enough runs", () => {
+    expect(tukeyOutliers([20, 50, 51, 52, 53])).toEqual([20]);
+    expect(tukeyOutliers([20, 50, 51])).toEqual([]);
+  });
+
+  it("can leave outliers out of the spread while still flagging them", () => {
+    const kept = spread([20, 50, 51, 52, 53]);
+    expect(kept).toMatchObject({ median: 51, min: 20, iqr: 2, outliers: [20] });
+    const excluded = spread([20, 50, 51, 52, 53], { excludeOutliers: true });
+    expect(excluded).toMatchObject({ median: 51.5, min: 50, max: 53, outliers: [20] });
   });
 });
 
 describe("summariseMultirun", () => {
   it("reports replays and score spread on 0-100 scale", () => {
     const s = summariseMultirun([run("t1", 40, 200), run("t1", 40, 200), run("t2", 60, 400), run("t3", 50, 300)]);
-    expect(s.stats).toEqual({ analyses: 3, requested: 4, cachedReplays: 1 });
-    expect(s.scores.performance).toEqual({ median: 50, min: 40, max: 60 });
-    expect(s.metrics["total-blocking-time"]).toEqual({ median: 300, min: 200, max: 400 });
+    expect(s.stats).toEqual({ analyses: 3, requested: 4, cachedReplays: 1, outliersExcluded: false });
+    expect(s.scores.performance).toMatchObject({ median: 50, min: 40, max: 60, iqr: 10, mad: 10 });
+    expect(s.metrics["total-blocking-time"]).toMatchObject({ median: 300, min: 200, max: 400 });
+  });
+
+  it("keeps a trimmed record per distinct run, flagging outlier runs", () => {
+    const withAudit = (stamp: string, score: number, tbt: number, unusedJs: number) => {
+      const r = run(stamp, score, tbt);
+      return {
+        lighthouseResult: {
+          ...r.lighthouseResult,
+          audits: { ...r.lighthouseResult.audits, "unused-javascript": { score: unusedJs }, "network-requests": { score: null } },
+        },
+      };
+    };
+    const s = summariseMultirun([
+      withAudit("t1", 70, 300, 0.5),
+      withAudit("t1", 70, 300, 0.5),
+      withAudit("t2", 71, 310, 1),
+      withAudit("t3", 69, 2000, 0.4),
+      withAudit("t4", 70, 290, 0.5),
+    ]);
+    expect(s.runs).toHaveLength(4);
+    expect(s.runs[0]).toEqual({
+      fetchTime: "t1",
+      scores: { performance: 70 },
+      metrics: { "total-blocking-time": 300 },
+      failingAudits: ["unused-javascript"],
+      outlierIn: [],
+    });
+    expect(s.runs[1].failingAudits).toEqual([]);
+    expect(s.runs[2].outlierIn).toEqual(["total-blocking-time"]);
+  });
+});
+
+describe("samplingDecision", () => {
+  it("stops once the score CI is within the target", () => {
+    const decision = samplingDecision(summariseMultirun([run("t1", 70, 300), run("t2", 70, 310), run("t3", 70, 290)]), 3);
+    expect(decision).toEqual({ stop: true, ciWidth: 0, tbtNoisy: false });
+  });
+
+  it("continues while the score is imprecise or TBT swings", () => {
+    expect(samplingDecision(summariseMultirun([run("t1", 40), run("t2", 70), run("t3", 55)]), 3).stop).toBe(false);
+    const noisy = samplingDecision(summariseMultirun([run("t1", 70, 100), run("t2", 70, 900), run("t3", 70, 150)]), 3);
+    expect(noisy).toMatchObject({ stop: false, tbtNoisy: true });
   });
 });
@@ -2,14 +2,22 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import nock from "nock";
 
 const SECRET_KEY = "super-secret-api-key-9999";
+const SECOND_KEY = "second-secret-api-key-4242";
 
 // Mock env BEFORE importing the client so the constructor sees our key.
 vi.mock("../env.js", () => ({
   getEnv: () => ({
     GOOGLE_API_KEY: SECRET_KEY,
+    GOOGLE_API_KEYS: [SECOND_KEY],
     REQUEST_TIMEOUT: 30000,
     RETRY_ATTEMPTS: 0,
     CACHE_TTL: 3600,
+    CACHE_MAX_ENTRIES: 500,
+    CACHE_MAX_BYTES: 256 * 1024 * 1024,
+    PSI_BASE_URL: "https://www.googleapis.com/pagespeedonline/v5",
+    CRUX_BASE_URL: "https://chromeuxreport.googleapis.com/v1",
+    PSI_REQUESTS_PER_MINUTE: 240,
+    CRUX_REQUESTS_PER_MINUTE: 150,
     MAX_CONCURRENCY: 3,
     LOG_LEVEL: "info",
     NODE_ENV: "test",
@@ -116,4 +124,31 @@ describe("PageSpeedClient redaction", () => {
       expect(serialised).not.toContain(SECRET_KEY);
     }
   });
+
+  it("moves to the next key when one is out of quota and logs neither", async () => {
+    const exhausted = nock("https://www.googleapis.com")
+      .get("/pagespeedonline/v5/runPagespeed")
+      .query((query) => query.key === SECRET_KEY)
+      .reply(429, { error: { status: "RESOURCE_EXHAUSTED", message: `Queries per day exceeded for key=${SECRET_KEY}` } });
+    const fallback = nock("https://www.googleapis.com")
+      .get("/pagespeedonline/v5/runPagespeed")
+      .query((query) => query.key === SECOND_KEY)
+      .reply(200, { lighthouseResult: { categories: {}, audits: {} } });
+
+    await client.analyzePageSpeed(
+      {
+        url: "https://example.com",
+        strategy: "mobile",
+        category: ["performance"],
+        locale: "en",
+      },
+      "corr-redact-4"
+    );
+
+    expect(exhausted.isDone()).toBe(true);
+    expect(fallback.isDone()).toBe(true);
+    const allSerialised = JSON.stringify(logCalls);
+    expect(allSerialised).not.toContain(SECRET_KEY);
+    expect(allSerialised).not.toContain(SECOND_KEY);
+  });
 });
@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import nock from "nock";
 import { PageSpeedClient } from "../pagespeed-client.js";
 import { cache } from "../cache.js";
+import { CancelledError } from "../cancellation.js";
+import { CacheMissError, QuotaError, UnreachablePageError, describeFailure } from "../errors.js";
+import type { ProgressReporter } from "../progress.js";
 
 // Mock environment
 vi.mock("../env.js", () => ({
@@ -10,12 +13,35 @@ vi.mock("../env.js", () => ({
     REQUEST_TIMEOUT: 30000,
     RETRY_ATTEMPTS: 3,
     CACHE_TTL: 3600,
+    CACHE_MAX_ENTRIES: 500,
+    CACHE_MAX_BYTES: 256 * 1024 * 1024,
+    PSI_BASE_URL: "https://www.googleapis.com/pagespeedonline/v5",
+    CRUX_BASE_URL: "https://chromeuxreport.googleapis.com/v1",
+    PSI_REQUESTS_PER_MINUTE: 240,
+    CRUX_REQUESTS_PER_MINUTE: 150,
     MAX_CONCURRENCY: 3,
     LOG_LEVEL: "info",
     NODE_ENV: "test",
   }),
 }));
 
+// Fast-forwards each 65s re-analysis wait, and nothing else, until the call settles
+const settle = async <T>(call: (progress: ProgressReporter) => Promise<T>) => {
+  let waiting = false;
+  let settled = false;
+  const progress = { setTotal: vi.fn(), advance: vi.fn(), note: vi.fn(() => (waiting = true)) };
+  const pending = call(progress);
+  pending.then(() => (settled = true), () => (settled = true));
+  while (!settled) {
+    await new Promise((resolve) => setImmediate(resolve));
+    if (waiting) {
+      waiting = false;
+      await vi.advanceTimersByTimeAsync(65_000);
+    }
+  }
+  return { result: await pending, progress };
+};
+
 describe("PageSpeedClient", () => {
   let client: PageSpeedClient;
 
@@ -80,6 +106,21 @@ describe("PageSpeedClient", () => {
     ).rejects.toThrow();
   });
 
+  it("turns a Lighthouse runtimeError in a 200 response into an UnreachablePageError", async () => {
+    nock("https://www.googleapis.com")
+      .get("/pagespeedonline/v5/runPagespeed")
+      .query(true)
+      .reply(200, { lighthouseResult: { runtimeError: { code: "NO_FCP", message: "The page did not paint any content." } } });
+
+    const error = await client
+      .analyzePageSpeed({ url: "https://example.com", strategy: "mobile", category: ["performance"], locale: "en" }, "test-runtime-error")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnreachablePageError);
+    expect(error).toMatchObject({ kind: "no-fcp", message: "Lighthouse returned error: NO_FCP. The page did not paint any content." });
+    expect(cache.size()).toBe(0);
+  });
+
   it("should cache responses", async () => {
     const mockResponse = {
       lighthouseResult: {
@@ -131,4 +172,358 @@ describe("PageSpeedClient", () => {
     expect(result2).toEqual(mockResponse);
     expect(scope.isDone()).toBe(true); // Verify the HTTP mock was called exactly once
   });
+
+  it("counts progress in runs × strategies", async () => {
+    nock("https://www.googleapis.com")
+      .get("/pagespeedonline/v5/runPagespeed")
+      .query(true)
+      .times(2)
+      .reply(200, { lighthouseResult: {} });
+
+    const progress = { setTotal: vi.fn(), advance: vi.fn(), note: vi.fn() };
+    await client.analyzePageSpeed(
+      { url: "https://example.com", strategy: "both", category: ["performance"], locale: "en" },
+      "test-progress",
+      { progress }
+    );
+
+    expect(progress.setTotal).toHaveBeenCalledWith(2);
+    expect(progress.advance.mock.calls).toEqual([["mobile analysis complete"], ["desktop analysis complete"]]);
+  });
+
+  describe("cancellation", () => {
+    const input = {
+      url: "https://example.com",
+      strategy: "mobile" as const,
+      category: ["performance" as const],
+      locale: "en",
+    };
+
+    it("aborts an in-flight request without caching anything", async () => {
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .delay(5_000)
+        .reply(200, { lighthouseResult: {} });
+
+      const controller = new AbortController();
+      const started = Date.now();
+      const pending = client.analyzePageSpeed(input, "test-cancel-1", { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(pending).rejects.toBeInstanceOf(CancelledError);
+      expect(Date.now() - started).toBeLessThan(2_000);
+      expect(cache.size()).toBe(0);
+    });
+
+    it("stops a multirun during the re-analysis wait", async () => {
+      const scope = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .once()
+        .reply(200, { lighthouseResult: {} });
+
+      const controller = new AbortController();
+      const pending = client.analyzePageSpeed({ ...input, runs: 3 }, "test-cancel-2", {
+        signal: controller.signal,
+        progress: {
+          setTotal: () => {},
+          advance: () => {},
+          // Cancel once the client starts sleeping out the 65s window
+          note: () => setTimeout(() => controller.abort(), 10),
+        },
+      });
+
+      await expect(pending).rejects.toBeInstanceOf(CancelledError);
+      expect(scope.isDone()).toBe(true);
+      expect(cache.size()).toBe(0);
+    });
+
+    it("makes no request when already cancelled", async () => {
+      const scope = nock("https://www.googleapis.com").get("/pagespeedonline/v5/runPagespeed").query(true).reply(200, {});
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.getCruxData({ url: "https://example.com" }, "test-cancel-3", { signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledError);
+      await expect(
+        client.analyzePageSpeed(input, "test-cancel-4", { signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(scope.isDone()).toBe(false);
+    });
+  });
+
+  describe("adaptive sampling", () => {
+    const input = {
+      url: "https://example.com",
+      strategy: "mobile" as const,
+      category: ["performance" as const],
+      locale: "en",
+      target_precision: 3,
+      max_runs: 5,
+    };
+
+    // Answers run i with a steady score and the i-th TBT
+    const psiRuns = (tbt: number[]) => {
+      let i = 0;
+      return nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .times(tbt.length)
+        .reply(200, () => ({
+          lighthouseResult: {
+            analysisUTCTimestamp: `t${i}`,
+            categories: { performance: { score: 0.7 } },
+            audits: { "total-blocking-time": { numericValue: tbt[i++] } },
+          },
+        }));
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("stops after the minimum runs once the score is precise", async () => {
+      const scope = psiRuns([300, 310, 290, 305, 295]);
+      const { result, progress } = await settle((progress) => client.analyzePageSpeed(input, "test-adaptive-1", { progress }));
+      const multirun = (result as any).multirun;
+
+      expect(multirun.stats.requested).toBe(3);
+      expect(multirun.adaptive).toMatchObject({ minRuns: 3, maxRuns: 5, ciWidth: 0, tbtNoisy: false, stoppedBecause: "precise" });
+      expect(progress.setTotal.mock.calls).toEqual([[5], [3]]);
+      expect(scope.isDone()).toBe(false);
+    });
+
+    it("keeps sampling while TBT swings widely", async () => {
+      const scope = psiRuns([100, 900, 150, 800, 120]);
+
+      const { result } = await settle((progress) => client.analyzePageSpeed(input, "test-adaptive-2", { progress }));
+      const multirun = (result as any).multirun;
+
+      expect(multirun.stats.requested).toBe(5);
+      expect(multirun.adaptive).toMatchObject({ tbtNoisy: true, stoppedBecause: "max-runs" });
+      expect(scope.isDone()).toBe(true);
+    });
+  });
+
+  describe("multirun with strategy both", () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("runs mobile and desktop in the same re-analysis windows", async () => {
+      const order: string[] = [];
+      let n = 0;
+      nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .times(4)
+        .reply(200, (uri) => {
+          const strategy = new URL(uri, "https://www.googleapis.com").searchParams.get("strategy")!;
+          order.push(strategy);
+          const mobile = strategy === "mobile";
+          n++;
+          return {
+            lighthouseResult: {
+              analysisUTCTimestamp: `t${n}`,
+              categories: { performance: { score: (mobile ? 40 : 90) / 100 + n / 1000 } },
+              audits: { "total-blocking-time": { numericValue: mobile ? 900 + n : 50 + n } },
+            },
+          };
+        });
+
+      const { result, progress } = await settle((progress) =>
+        client.analyzePageSpeed(
+          { url: "https://example.com", strategy: "both", category: ["performance"], locale: "en", runs: 2 },
+          "test-both-multirun",
+          { progress }
+        )
+      );
+
+      expect(order).toEqual(["mobile", "desktop", "mobile", "desktop"]);
+      expect(progress.note).toHaveBeenCalledTimes(1);
+      expect(progress.setTotal).toHaveBeenCalledWith(4);
+      expect((result as any).multirun.stats.analyses).toBe(2);
+      expect((result.desktopResult as any).multirun.scores.performance.median).toBeGreaterThan(90);
+    });
+  });
+
+  describe("request coalescing", () => {
+    const input = {
+      url: "https://example.com",
+      strategy: "mobile" as const,
+      category: ["performance" as const],
+      locale: "en",
+    };
+
+    it("shares one PSI call between concurrent identical requests", async () => {
+      const scope = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .once()
+        .delay(50)
+        .reply(200, { lighthouseResult: { fetchTime: "t1" } });
+
+      const [a, b] = await Promise.all([
+        client.analyzePageSpeed(input, "test-coalesce-1"),
+        client.analyzePageSpeed(input, "test-coalesce-2"),
+      ]);
+
+      expect(scope.isDone()).toBe(true);
+      expect(a).toBe(b);
+    });
+
+    it("keeps requests with different parameters apart", async () => {
+      const scope = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .times(2)
+        .reply(200, { lighthouseResult: {} });
+
+      await Promise.all([
+        client.analyzePageSpeed(input, "test-coalesce-3"),
+        client.analyzePageSpeed({ ...input, category: ["seo"] }, "test-coalesce-4"),
+      ]);
+
+      expect(scope.isDone()).toBe(true);
+    });
+
+    it("shares one CrUX call and shares its failure too", async () => {
+      const scope = nock("https://chromeuxreport.googleapis.com")
+        .post("/v1/records:queryRecord")
+        .query(true)
+        .once()
+        .delay(50)
+        .reply(400, "boom");
+
+      const results = await Promise.allSettled([
+        client.getCruxData({ url: "https://example.com" }, "test-coalesce-5"),
+        client.getCruxData({ url: "https://example.com" }, "test-coalesce-6"),
+      ]);
+
+      expect(scope.isDone()).toBe(true);
+      expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    });
+
+    it("lets one caller cancel without aborting the call for the others", async () => {
+      const scope = nock("https://www.googleapis.com")
+        .get("/pagespeedonline/v5/runPagespeed")
+        .query(true)
+        .once()
+        .delay(100)
+        .reply(200, { lighthouseResult: {} });
+
+      const controller = new AbortController();
+      const cancelled = client.analyzePageSpeed(input, "test-coalesce-7", { signal: controller.signal });
+      const kept = client.analyzePageSpeed(input, "test-coalesce-8");
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+      await expect(kept).resolves.toEqual({ lighthouseResult: {} });
+      expect(scope.isDone()).toBe(true);
+      expect(cache.size()).toBe(1);
+    });
+  });
+
+  describe("freshness", () => {
+    const input = {
+      url: "https://example.com",
+      strategy: "mobile" as const,
+      category: ["performance" as const],
+      locale: "en",
+    };
+    const psi = () => nock("https://www.googleapis.com").get("/pagespeedonline/v5/runPagespeed").query(true);
+
+    it("cached-only fails without calling the API when nothing is cached", async () => {
+      const scope = psi().reply(200, {});
+      const error = await client.analyzePageSpeed({ ...input, freshness: "cached-only" }, "test-fresh-1").catch((e) => e);
+      expect(error).toBeInstanceOf(CacheMissError);
+      expect(error.message).toBe('No cached mobile analysis for https://example.com (freshness "cached-only" never calls the API)');
+      expect(describeFailure(error)).toMatchObject({ kind: "not-cached", action: "fix-input" });
+      expect(scope.isDone()).toBe(false);
+    });
+
+    it("force-refresh skips the cache and replaces the entry", async () => {
+      psi().reply(200, { lighthouseResult: { fetchTime: "t1" } });
+      psi().reply(200, { lighthouseResult: { fetchTime: "t2" } });
+      await client.analyzePageSpeed(input, "test-fresh-2");
+
+      const onCacheStatus = vi.fn();
+      const fresh = await client.analyzePageSpeed({ ...input, freshness: "force-refresh" }, "test-fresh-3", { onCacheStatus });
+
+      expect(fresh.lighthouseResult.fetchTime).toBe("t2");
+      expect(onCacheStatus).toHaveBeenCalledWith({ strategy: "mobile", servedFromCache: false, revalidating: false });
+      expect((await client.analyzePageSpeed(input, "test-fresh-4")).lighthouseResult.fetchTime).toBe("t2");
+    });
+
+    it("revalidate-in-background answers from cache and refreshes it for the next call", async () => {
+      psi().reply(200, { lighthouseResult: { fetchTime: "t1" } });
+      const refresh = psi().delay(20).reply(200, { lighthouseResult: { fetchTime: "t2" } });
+      await client.analyzePageSpeed(input, "test-fresh-5");
+
+      const onCacheStatus = vi.fn();
+      const stale = await client.analyzePageSpeed({ ...input, freshness: "revalidate-in-background" }, "test-fresh-6", { onCacheStatus });
+
+      expect(stale.lighthouseResult.fetchTime).toBe("t1");
+      expect(onCacheStatus).toHaveBeenCalledWith({ strategy: "mobile", servedFromCache: true, revalidating: true });
+      await vi.waitFor(() => expect(refresh.isDone()).toBe(true));
+      await vi.waitFor(async () =>
+        expect((await client.analyzePageSpeed({ ...input, freshness: "cached-only" }, "test-fresh-7")).lighthouseResult.fetchTime).toBe("t2")
+      );
+    });
+  });
+
+  describe("rate limiting", () => {
+    const input = {
+      url: "https://example.com",
+      strategy: "mobile" as const,
+      category: ["performance" as const],
+      locale: "en",
+    };
+    const psi = () => nock("https://www.googleapis.com").get("/pagespeedonline/v5/runPagespeed").query(true);
+    const crux = () => nock("https://chromeuxreport.googleapis.com").post("/v1/records:queryRecord").query(true);
+
+    it("retries a PSI 429 after the Retry-After delay", async () => {
+      psi().reply(429, { error: { status: "RESOURCE_EXHAUSTED" } }, { "Retry-After": "0" });
+      const success = psi().reply(200, { lighthouseResult: { fetchTime: "t1" } });
+
+      const result = await client.analyzePageSpeed(input, "test-rate-1");
+
+      expect(success.isDone()).toBe(true);
+      expect(result.lighthouseResult.fetchTime).toBe("t1");
+    });
+
+    it("retries a CrUX 429 instead of failing", async () => {
+      crux().reply(429, "Too Many Requests", { "Retry-After": "0" });
+      crux().reply(200, { record: { key: { url: "https://example.com" } } });
+
+      await expect(client.getCruxData({ url: "https://example.com" }, "test-rate-2")).resolves.toEqual({
+        record: { key: { url: "https://example.com" } },
+      });
+    });
+
+    it("fails fast once Google reports the daily quota is spent", async () => {
+      const quota = psi().once().reply(429, {
+        error: { status: "RESOURCE_EXHAUSTED", message: "Quota exceeded for quota metric 'Queries' and limit 'Queries per day'" },
+      });
+
+      await expect(client.analyzePageSpeed(input, "test-rate-3")).rejects.toBeInstanceOf(QuotaError);
+      expect(quota.isDone()).toBe(true);
+
+      const next = psi().reply(200, {});
+      await expect(client.analyzePageSpeed({ ...input, url: "https://example.org" }, "test-rate-4")).rejects.toThrow(
+        "PageSpeed Insights daily quota is exhausted; it resets at midnight Pacific time"
+      );
+      expect(next.isDone()).toBe(false);
+    });
+  });
 });
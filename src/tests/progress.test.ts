@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { McpProgressReporter } from "../progress.js";
+
+describe("McpProgressReporter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends progress with the total and the latest message", () => {
+    const send = vi.fn(async () => {});
+    const reporter = new McpProgressReporter("tok", send);
+    try {
+      reporter.setTotal(4);
+      reporter.advance("mobile run 1/2 complete");
+      reporter.note("mobile run 2/2, waiting for re-analysis window");
+      reporter.advance();
+    } finally {
+      reporter.close();
+    }
+
+    expect(send.mock.calls.map(([params]) => params)).toEqual([
+      { progressToken: "tok", progress: 0, total: 4 },
+      { progressToken: "tok", progress: 1, total: 4, message: "mobile run 1/2 complete" },
+      { progressToken: "tok", progress: 1.5, total: 4, message: "mobile run 2/2, waiting for re-analysis window" },
+      { progressToken: "tok", progress: 2, total: 4, message: "mobile run 2/2, waiting for re-analysis window" },
+    ]);
+  });
+
+  it("never repeats a progress value", () => {
+    const send = vi.fn(async () => {});
+    const reporter = new McpProgressReporter("tok", send);
+    try {
+      reporter.setTotal(5);
+      reporter.setTotal(3);
+      reporter.advance();
+      reporter.setTotal(2);
+    } finally {
+      reporter.close();
+    }
+
+    expect(send.mock.calls.map(([params]) => params)).toEqual([
+      { progressToken: "tok", progress: 0, total: 5 },
+      { progressToken: "tok", progress: 1, total: 3 },
+    ]);
+  });
+
+  it("creeps towards the next unit as a keepalive until closed", () => {
+    vi.useFakeTimers();
+    const send = vi.fn(async () => {});
+    const reporter = new McpProgressReporter(7, send);
+    reporter.advance("working");
+
+    vi.advanceTimersByTime(20_000);
+    const values = send.mock.calls.map(([params]) => (params as { progress: number }).progress);
+    expect(values).toEqual([1, 1.5, 1.75]);
+    expect(send).toHaveBeenLastCalledWith({ progressToken: 7, progress: 1.75, message: "working" });
+
+    vi.advanceTimersByTime(60 * 60_000);
+    const all = send.mock.calls.map(([params]) => (params as { progress: number }).progress);
+    expect(all.every((value, i) => i === 0 || value > all[i - 1])).toBe(true);
+    expect(Math.max(...all)).toBeLessThan(2);
+
+    reporter.close();
+    const count = send.mock.calls.length;
+    vi.advanceTimersByTime(20_000);
+    expect(send).toHaveBeenCalledTimes(count);
+  });
+
+  it("swallows send failures", async () => {
+    const reporter = new McpProgressReporter("tok", async () => {
+      throw new Error("client gone");
+    });
+    expect(() => reporter.advance()).not.toThrow();
+    reporter.close();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { PROMPTS, findPrompt } from "../prompts.js";
+
+describe("prompts", () => {
+  it("every prompt declares url and renders with defaults", () => {
+    for (const prompt of PROMPTS) {
+      expect(prompt.arguments.find((a) => a.name === "url")?.required).toBe(true);
+      const text = prompt.render({ url: "https://example.com", competitor_url: "https://other.example.com" });
+      expect(text).toContain("https://example.com");
+      expect(text).toContain("mobile");
+    }
+  });
+
+  it("diagnose-slow-lcp walks through the LCP drill-downs", () => {
+    const text = findPrompt("diagnose-slow-lcp")!.render({ url: "https://example.com", strategy: "desktop" });
+    expect(text).toContain("desktop");
+    expect(text).toContain("get_element_analysis");
+    expect(text).toContain("get_render_blocking_details");
+    expect(text).toContain("analysisId");
+  });
+
+  it("audit-before-release starts from compare_baseline", () => {
+    const text = findPrompt("audit-before-release")!.render({ url: "https://example.com" });
+    expect(text.indexOf("compare_baseline")).toBeLessThan(text.indexOf("get_full_audit"));
+  });
+
+  it("rejects a bad url or strategy", () => {
+    const prompt = findPrompt("triage-cls-regression")!;
+    expect(() => prompt.render({ url: "file:///etc/passwd" })).toThrow();
+    expect(() => prompt.render({ url: "https://example.com", strategy: "both" })).toThrow();
+  });
+
+  it("compare-with-competitor requires the competitor url", () => {
+    expect(() => findPrompt("compare-with-competitor")!.render({ url: "https://example.com" })).toThrow();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../env.js", () => ({
+  getEnv: () => ({ GOOGLE_API_KEY: "test-api-key", LOG_LEVEL: "info", NODE_ENV: "test" }),
+}));
+
+const { DailyUsage, RateLimiter, isDailyQuota, isRateLimited, parseRetryAfter } = await import("../rate-limiter.js");
+const { QuotaError, RateLimitError } = await import("../errors.js");
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("paces requests to the per-minute budget", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter("psi", { perMinute: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    let third = false;
+    const pending = limiter.acquire().then(() => (third = true));
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(third).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+    expect(third).toBe(true);
+  });
+
+  it("holds requests for the Retry-After delay and backs off without one", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter("crux", { perMinute: 100 });
+    limiter.backOff(new RateLimitError("429", "crux", 10_000, false), 1);
+
+    let done = false;
+    const pending = limiter.acquire().then(() => (done = true));
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+
+    limiter.backOff(new RateLimitError("429", "crux", null, false), 2);
+    done = false;
+    const backedOff = limiter.acquire().then(() => (done = true));
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await backedOff;
+  });
+
+  it("gives up when the daily quota is gone or the wait is too long", async () => {
+    const limiter = new RateLimiter("psi", { perMinute: 100 });
+    expect(() => limiter.backOff(new RateLimitError("429", "psi", 60 * 60_000, false), 1)).toThrow(
+      "PageSpeed Insights quota is exhausted; Google asked to wait 60 minutes"
+    );
+    expect(() => limiter.backOff(new RateLimitError("429", "psi", null, true), 1)).toThrow(QuotaError);
+    await expect(limiter.acquire()).rejects.toThrow("PageSpeed Insights daily quota is exhausted");
+  });
+
+  describe("daily budget", () => {
+    let dir: string;
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("counts requests in a file shared across restarts", async () => {
+      dir = mkdtempSync(join(tmpdir(), "psi-usage-"));
+      const file = join(dir, "usage.json");
+
+      const first = new RateLimiter("crux", { perMinute: 100, perDay: 2 }, new DailyUsage(file));
+      await first.acquire();
+
+      const restarted = new RateLimiter("crux", { perMinute: 100, perDay: 2 }, new DailyUsage(file));
+      await restarted.acquire();
+      await expect(restarted.acquire()).rejects.toThrow(
+        "Chrome UX Report daily budget of 2 requests is used up; it resets at midnight Pacific time"
+      );
+      // PSI has its own budget
+      await new RateLimiter("psi", { perMinute: 100, perDay: 2 }, new DailyUsage(file)).acquire();
+    });
+
+    it("waits for a held lock without blocking the event loop", async () => {
+      dir = mkdtempSync(join(tmpdir(), "psi-usage-"));
+      const file = join(dir, "usage.json");
+      writeFileSync(`${file}.lock`, "");
+
+      let ticks = 0;
+      const timer = setInterval(() => ticks++, 1);
+      const pending = new DailyUsage(file).increment("psi");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      rmSync(`${file}.lock`);
+      expect(await pending).toBe(1);
+      clearInterval(timer);
+      expect(ticks).toBeGreaterThan(5);
+    });
+
+    it("charges a request once however many attempts it takes", async () => {
+      dir = mkdtempSync(join(tmpdir(), "psi-usage-"));
+      const usage = new DailyUsage(join(dir, "usage.json"));
+      const limiter = new RateLimiter("psi", { perMinute: 100, perDay: 10 }, usage);
+
+      await limiter.acquire();
+      await limiter.acquire(undefined, false);
+      await limiter.acquire(undefined, false);
+
+      expect(usage.count("psi")).toBe(1);
+    });
+
+    it("updates the count under a lock file and clears a stale one", async () => {
+      dir = mkdtempSync(join(tmpdir(), "psi-usage-"));
+      const file = join(dir, "usage.json");
+      // Left behind by a process that died mid-update
+      writeFileSync(`${file}.lock`, "");
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(`${file}.lock`, old, old);
+
+      const usage = new DailyUsage(file);
+      expect(await usage.increment("crux")).toBe(1);
+      expect(await new DailyUsage(file).increment("crux")).toBe(2);
+      expect(existsSync(`${file}.lock`)).toBe(false);
+    });
+
+    it("remembers an exhausted quota reported by Google", async () => {
+      dir = mkdtempSync(join(tmpdir(), "psi-usage-"));
+      const file = join(dir, "usage.json");
+
+      await new RateLimiter("psi", { perMinute: 100, perDay: 1000 }, new DailyUsage(file)).exhaustForToday();
+
+      const restarted = new RateLimiter("psi", { perMinute: 100, perDay: 1000 }, new DailyUsage(file));
+      await expect(restarted.acquire()).rejects.toBeInstanceOf(QuotaError);
+    });
+  });
+});
+
+describe("rate limit responses", () => {
+  it("recognises 429 and RESOURCE_EXHAUSTED", () => {
+    expect(isRateLimited(429, "")).toBe(true);
+    expect(isRateLimited(403, '{"error":{"status":"RESOURCE_EXHAUSTED"}}')).toBe(true);
+    expect(isRateLimited(400, "Invalid URL")).toBe(false);
+    expect(isDailyQuota("Quota exceeded for quota metric 'Queries' and limit 'Queries per day'")).toBe(true);
+    expect(isDailyQuota("Queries per minute")).toBe(false);
+  });
+
+  it("parses Retry-After as seconds or an HTTP date", () => {
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    expect(parseRetryAfter("30", now)).toBe(30_000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 12:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { PerformanceRecommendationsEngine } from "../recommendations.js";
+import { summariseMultirun } from "../multirun.js";
+
+const response = (stamp: string, unusedJs: number, renderBlocking: number, wasted = 100) => ({
+  lighthouseResult: {
+    fetchTime: stamp,
+    categories: { performance: { score: 0.6, auditRefs: [] } },
+    audits: {
+      "unused-javascript": { id: "unused-javascript", title: "Reduce unused JavaScript", score: unusedJs, numericValue: wasted },
+      "render-blocking-resources": { id: "render-blocking-resources", title: "Eliminate render-blocking resources", score: renderBlocking, numericValue: 200 },
+    },
+  },
+});
+
+describe("PerformanceRecommendationsEngine", () => {
+  it("keeps only audits that failed in every run of a multirun", () => {
+    const runs = [response("t1", 0.4, 0.5, 100), response("t2", 0.4, 1, 120), response("t3", 0.3, 0.5, 90)];
+    const data = { ...runs[0], multirun: summariseMultirun(runs) };
+
+    const report = new PerformanceRecommendationsEngine().generateRecommendations(data as any);
+
+    expect(report.recommendations.map((r) => r.id)).toEqual(["unused-javascript"]);
+  });
+
+  it("keeps every failing audit of a single run", () => {
+    const report = new PerformanceRecommendationsEngine().generateRecommendations(response("t1", 0.4, 0.5) as any);
+    expect(report.recommendations.map((r) => r.id).sort()).toEqual(["render-blocking-resources", "unused-javascript"]);
+  });
+});
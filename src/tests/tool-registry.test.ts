@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { ToolRegistry } from "../tool-registry.js";
+
+const EchoSchema = z.object({
+  url: z.string().describe("Page to echo"),
+  runs: z.number().int().min(1).max(5).default(1),
+});
+
+function echoRegistry(handler = vi.fn(async (input: z.output<typeof EchoSchema>) => ({
+  content: [{ type: "text", text: `${input.url} x${input.runs}` }],
+}))) {
+  const registry = new ToolRegistry().register({
+    name: "echo",
+    description: "Echo the input",
+    inputSchema: EchoSchema,
+    outputSchema: z.object({}),
+    handler,
+  });
+  return { registry, handler };
+}
+
+describe("ToolRegistry", () => {
+  it("advertises the JSON Schema generated from the Zod input schema", () => {
+    const [tool] = echoRegistry().registry.list();
+    expect(tool.name).toBe("echo");
+    expect(tool.inputSchema).toMatchObject({
+      type: "object",
+      properties: {
+        url: { type: "string", description: "Page to echo" },
+        runs: { type: "integer", minimum: 1, maximum: 5, default: 1 },
+      },
+      required: ["url"],
+    });
+    expect(tool.inputSchema).not.toHaveProperty("$schema");
+  });
+
+  it("hands the handler parsed input with defaults applied", async () => {
+    const { registry, handler } = echoRegistry();
+    const signal = new AbortController().signal;
+    const result = await registry.call("echo", { url: "https://example.com" }, { signal });
+    expect(handler).toHaveBeenCalledWith({ url: "https://example.com", runs: 1 }, { signal });
+    expect(result.content[0]).toMatchObject({ text: "https://example.com x1" });
+  });
+
+  it("returns an isError result naming each invalid field without calling the handler", async () => {
+    const { registry, handler } = echoRegistry();
+    const result = await registry.call("echo", { runs: 9 });
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ type: "text" });
+    const text = (result.content[0] as { text: string }).text;
+    expect(text).toContain("invalid arguments for echo");
+    expect(text).toContain("url:");
+    expect(text).toContain("runs:");
+    expect(result._meta?.failure).toMatchObject({ kind: "invalid-input", action: "fix-input", retryable: false });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("throws for unknown tools and duplicate registrations", async () => {
+    const { registry } = echoRegistry();
+    await expect(registry.call("nope", {})).rejects.toThrow("Unknown tool: nope");
+    expect(() =>
+      registry.register({
+        name: "echo",
+        description: "again",
+        inputSchema: EchoSchema,
+        outputSchema: z.object({}),
+        handler: async () => ({}),
+      })
+    ).toThrow("Tool already registered: echo");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import nock from "nock";
+
+const SECRET_KEY = "upstream-secret-key-1234";
+
+const env = vi.hoisted(() => ({
+  GOOGLE_API_KEY: "upstream-secret-key-1234",
+  LOG_LEVEL: "info",
+  NODE_ENV: "test",
+  REQUEST_TIMEOUT: 30000,
+  RETRY_ATTEMPTS: 0,
+  PSI_REQUESTS_PER_MINUTE: 240,
+  CRUX_REQUESTS_PER_MINUTE: 150,
+}));
+vi.mock("../env.js", () => ({ getEnv: () => env }));
+
+const { UpstreamClient, CircuitBreaker } = await import("../upstream.js");
+const { InvalidUrlError, UnreachablePageError, UpstreamError } = await import("../errors.js");
+
+const PSI_URL = "https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=https%3A%2F%2Fexample.com";
+const psi = () => nock("https://www.googleapis.com").get("/pagespeedonline/v5/runPagespeed").query(true);
+
+describe("UpstreamClient", () => {
+  beforeEach(() => {
+    nock.cleanAll();
+    env.RETRY_ATTEMPTS = 0;
+    env.REQUEST_TIMEOUT = 30000;
+  });
+
+  it("adds the key and posts JSON bodies", async () => {
+    const scope = nock("https://chromeuxreport.googleapis.com")
+      .post("/v1/records:queryRecord", { url: "https://example.com" })
+      .query({ key: SECRET_KEY })
+      .reply(200, { record: {} });
+
+    const response = await new UpstreamClient().request({
+      api: "crux",
+      url: "https://chromeuxreport.googleapis.com/v1/records:queryRecord",
+      body: { url: "https://example.com" },
+      correlationId: "upstream-1",
+    });
+
+    expect(scope.isDone()).toBe(true);
+    expect(response).toEqual({ status: 200, data: { record: {} } });
+  });
+
+  it("retries a 5xx and succeeds", async () => {
+    env.RETRY_ATTEMPTS = 1;
+    psi().reply(503, "Service Unavailable");
+    psi().reply(200, { lighthouseResult: {} });
+
+    const response = await new UpstreamClient().request({ api: "psi", url: PSI_URL, correlationId: "upstream-2" });
+    expect(response.data).toEqual({ lighthouseResult: {} });
+  });
+
+  it("does not retry a page Lighthouse could not load", async () => {
+    env.RETRY_ATTEMPTS = 3;
+    const scope = psi()
+      .once()
+      .reply(500, { error: { message: "Lighthouse returned error: FAILED_DOCUMENT_REQUEST. Lighthouse was unable to reliably load the page" } });
+
+    const request = new UpstreamClient().request({ api: "psi", url: PSI_URL, correlationId: "upstream-3" });
+    await expect(request).rejects.toBeInstanceOf(UnreachablePageError);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("reports a rejected URL and redacts the key from the message", async () => {
+    psi().reply(400, { error: { message: `Invalid value 'nope' for url (key=${SECRET_KEY})` } });
+
+    const error = await new UpstreamClient()
+      .request({ api: "psi", url: PSI_URL, correlationId: "upstream-4" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidUrlError);
+    expect((error as Error).message).toContain("[REDACTED]");
+    expect((error as Error).message).not.toContain(SECRET_KEY);
+  });
+
+  it("says when a request timed out", async () => {
+    env.REQUEST_TIMEOUT = 50;
+    psi().delay(500).reply(200, {});
+
+    await expect(new UpstreamClient().request({ api: "psi", url: PSI_URL, correlationId: "upstream-5" })).rejects.toThrow(
+      "PSI request timed out after 50ms"
+    );
+  });
+
+  it("hands accepted error statuses back without data", async () => {
+    nock("https://chromeuxreport.googleapis.com")
+      .post("/v1/records:queryHistoryRecord")
+      .query(true)
+      .reply(404, { error: { code: 404 } });
+
+    const response = await new UpstreamClient().request({
+      api: "crux",
+      url: "https://chromeuxreport.googleapis.com/v1/records:queryHistoryRecord",
+      body: { url: "https://example.com" },
+      correlationId: "upstream-6",
+      acceptStatus: [404],
+    });
+    expect(response).toEqual({ status: 404, data: null });
+  });
+
+  it("fails fast once Google keeps returning 5xx", async () => {
+    const failing = psi().times(5).reply(500, "Internal Server Error");
+    const client = new UpstreamClient();
+    for (let i = 0; i < 5; i++) {
+      await expect(client.request({ api: "psi", url: PSI_URL, correlationId: "upstream-7" })).rejects.toThrow("PSI API error: 500");
+    }
+    expect(failing.isDone()).toBe(true);
+
+    const untouched = psi().reply(200, {});
+    await expect(client.request({ api: "psi", url: PSI_URL, correlationId: "upstream-8" })).rejects.toThrow(
+      "PageSpeed Insights keeps returning server errors"
+    );
+    expect(untouched.isDone()).toBe(false);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after the threshold and lets requests through after the cooldown", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker("crux", 2, 1_000);
+    breaker.failure();
+    expect(() => breaker.check()).not.toThrow();
+    breaker.failure();
+    expect(() => breaker.check()).toThrow(UpstreamError);
+
+    vi.advanceTimersByTime(1_000);
+    expect(() => breaker.check()).not.toThrow();
+    // Still failing: straight back to open
+    breaker.failure();
+    expect(() => breaker.check()).toThrow("Chrome UX Report keeps returning server errors");
+
+    vi.advanceTimersByTime(1_000);
+    breaker.success();
+    breaker.failure();
+    expect(() => breaker.check()).not.toThrow();
+  });
+});
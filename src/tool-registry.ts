@@ -0,0 +1,90 @@
+import { z } from "zod";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { describeZodError } from "./schemas.js";
+import { InvalidInputError, describeFailure, failureResult } from "./errors.js";
+import type { ProgressReporter } from "./progress.js";
+
+/**
+ * Every tool is declared once here: its Zod input schema, description,
+ * output schema and handler. The JSON Schema advertised by tools/list, the
+ * validation of incoming arguments and the dispatch of tools/call are all
+ * derived from that one definition, so they cannot drift apart.
+ */
+
+/** Per-call state the dispatcher hands to every handler. */
+export interface ToolContext {
+  /** Aborted when the client cancels the request (`notifications/cancelled`). */
+  signal?: AbortSignal;
+  /** Present when the client sent a progress token with the call. */
+  progress?: ProgressReporter;
+}
+
+export interface ToolDefinition<Input extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  inputSchema: Input;
+  outputSchema: z.ZodType;
+  annotations?: Tool["annotations"];
+  /** Receives the parsed input, defaults applied. */
+  handler(input: z.output<Input>, context: ToolContext): Promise<unknown>;
+}
+
+/**
+ * JSON Schema for a tool's inputSchema/outputSchema. Generated for the input
+ * side so fields with defaults stay optional, and objects stay open so adding
+ * a field later never breaks a client validating against an older listing.
+ */
+export function toToolJsonSchema(schema: z.ZodType): { type: "object"; [key: string]: unknown } {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io: "input" }) as Record<string, unknown>;
+  return { ...jsonSchema, type: "object" };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<Input extends z.ZodType>(tool: ToolDefinition<Input>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toToolJsonSchema(tool.inputSchema),
+      outputSchema: toToolJsonSchema(tool.outputSchema),
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    }));
+  }
+
+  /**
+   * Validate the arguments against the tool's schema and run its handler.
+   * Invalid arguments come back as an invalid-input failure naming every
+   * offending field, so the agent can correct the call without a protocol error.
+   */
+  async call(name: string, args: unknown, context: ToolContext = {}): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const parsed = tool.inputSchema.safeParse(args ?? {});
+    if (!parsed.success) {
+      const error = new InvalidInputError(`invalid arguments for ${name} — ${describeZodError(parsed.error)}`);
+      return failureResult(`calling ${name}`, describeFailure(error));
+    }
+
+    return (await tool.handler(parsed.data, context)) as CallToolResult;
+  }
+}
@@ -1,3 +1,5 @@
+import type { MultirunSummary } from './multirun.js';
+
 export interface PageSpeedInsightsRequest {
   url: string;
   strategy?: 'mobile' | 'desktop';
@@ -8,23 +10,65 @@ export interface PageSpeedInsightsRequest {
 export interface CruxRecord {
   record?: {
     key: {
-      url: string;
-      formFactor: string;
+      url?: string;
+      origin?: string;
+      formFactor?: string;
     };
+    // Timing metrics carry a histogram and percentiles (CLS as strings);
+    // navigation_types, form_factors and the LCP resource type carry fractions.
     metrics: {
       [key: string]: {
-        histogram: Array<{
-          start: number;
-          end?: number;
+        histogram?: Array<{
+          start: number | string;
+          end?: number | string;
           density: number;
         }>;
-        percentiles: {
-          p75: number;
+        percentiles?: {
+          p75: number | string;
           p50?: number;
           p25?: number;
         };
+        fractions?: Record<string, number>;
       };
     };
+    collectionPeriod?: {
+      firstDate: CruxDate;
+      lastDate: CruxDate;
+    };
+  };
+}
+
+export interface CruxDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Response of the CrUX History API (records:queryHistoryRecord): one entry
+// per weekly collection period, oldest first.
+export interface CruxHistoryRecord {
+  record?: {
+    key: {
+      url?: string;
+      origin?: string;
+      formFactor?: string;
+    };
+    metrics: {
+      [key: string]: {
+        histogramTimeseries?: Array<{
+          start: number | string;
+          end?: number | string;
+          densities: Array<number | string>;
+        }>;
+        percentilesTimeseries?: {
+          p75s: Array<number | string | null>;
+        };
+      };
+    };
+    collectionPeriods: Array<{
+      firstDate: CruxDate;
+      lastDate: CruxDate;
+    }>;
   };
 }
 
@@ -61,7 +105,10 @@ export interface PageSpeedInsightsResponse {
   captchaResult?: string;
   kind?: string;
   id?: string;
+  /** Desktop half of a strategy "both" analysis. */
   desktopResult?: PageSpeedInsightsResponse;
+  /** Spreads over the distinct analyses of a run count above one. */
+  multirun?: MultirunSummary;
   loadingExperience?: {
     id: string;
     metrics: Record<string, any>;
@@ -97,6 +144,8 @@ export interface PageSpeedInsightsResponse {
     categoryGroups: Record<string, any>;
     timing: Record<string, number>;
     stackPacks?: StackPack[];
+    /** Set when Lighthouse could not measure the page (code "NO_ERROR" otherwise). */
+    runtimeError?: { code: string; message?: string };
   };
   analysisUTCTimestamp?: string;
 }
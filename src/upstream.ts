@@ -0,0 +1,280 @@
+import fetch, { type Response } from "node-fetch";
+import pRetry from "p-retry";
+import { createRequire } from "module";
+import { getEnv } from "./env.js";
+import { createRequestLogger, getLogger } from "./logger.js";
+import { CancelledError, throwIfCancelled } from "./cancellation.js";
+import { ApiKeyPool, configuredKeys, isInvalidKey } from "./api-keys.js";
+import { ProxyAgents } from "./proxy.js";
+import {
+  API_LABELS,
+  createRateLimiters,
+  isDailyQuota,
+  isRateLimited,
+  parseRetryAfter,
+  type Api,
+  type RateLimiters,
+} from "./rate-limiter.js";
+import {
+  InvalidUrlError,
+  RateLimitError,
+  UnreachablePageError,
+  UpstreamError,
+  googleErrorMessage,
+  parsePageFailure,
+} from "./errors.js";
+
+/**
+ * The one way out to Google. Every PSI and CrUX call goes through
+ * `UpstreamClient.request`, which picks a key from the pool, waits for a rate
+ * limit slot, applies the timeout, retries transient failures with jittered
+ * backoff and turns failed responses into the typed errors of `errors.ts`,
+ * with every key redacted. A circuit breaker per API stops calling Google
+ * for a while after repeated 5xx responses instead of queueing more
+ * requests behind a failing service.
+ */
+
+const pkg = createRequire(import.meta.url)("../package.json") as { version: string };
+const USER_AGENT = `pagespeed-insights-mcp/${pkg.version}`;
+
+// Prefix of error messages, as the APIs are usually called in conversation.
+const SHORT_NAMES: Record<Api, string> = { psi: "PSI", crux: "CrUX" };
+
+// Consecutive 5xx responses before the breaker opens, and how long it stays open.
+const BREAKER_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(
+    private readonly api: Api,
+    private readonly threshold = BREAKER_THRESHOLD,
+    private readonly cooldownMs = BREAKER_COOLDOWN_MS
+  ) {}
+
+  /** Throws while open. Once the cooldown has passed requests go through again; one more 5xx reopens it. */
+  check(): void {
+    const remaining = this.openUntil - Date.now();
+    if (remaining > 0) {
+      throw new UpstreamError(
+        `${API_LABELS[this.api]} keeps returning server errors; not calling it for another ${Math.ceil(remaining / 1000)}s`,
+        this.api,
+        503,
+        false,
+        "upstream-unavailable"
+      );
+    }
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  failure(): void {
+    this.failures++;
+    if (this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+      getLogger().warn({ api: this.api, failures: this.failures, cooldownMs: this.cooldownMs }, "Circuit breaker open");
+    }
+  }
+}
+
+export interface UpstreamRequest {
+  api: Api;
+  /** Endpoint and query without the key; a key from the pool is added per attempt. */
+  url: string;
+  /** Sent as a JSON POST when set, otherwise the request is a GET. */
+  body?: unknown;
+  correlationId: string;
+  signal?: AbortSignal;
+  /** Statuses that are answers rather than failures (the History API's 404 for "no data"). */
+  acceptStatus?: number[];
+}
+
+export interface UpstreamResponse<T> {
+  status: number;
+  /** Parsed JSON for 2xx responses, null for an accepted error status. */
+  data: T | null;
+}
+
+export class UpstreamClient {
+  private readonly timeout: number;
+  private readonly retryAttempts: number;
+  private readonly keys: Record<Api, ApiKeyPool>;
+  private readonly rateLimits: RateLimiters;
+  private readonly proxies: ProxyAgents;
+  private readonly breakers: Record<Api, CircuitBreaker> = {
+    psi: new CircuitBreaker("psi"),
+    crux: new CircuitBreaker("crux"),
+  };
+
+  constructor() {
+    const env = getEnv();
+    this.timeout = env.REQUEST_TIMEOUT;
+    this.retryAttempts = env.RETRY_ATTEMPTS;
+    const keys = configuredKeys(env);
+    this.keys = {
+      psi: new ApiKeyPool("psi", keys, env.KEY_ROTATION),
+      crux: new ApiKeyPool("crux", keys, env.KEY_ROTATION),
+    };
+    this.rateLimits = createRateLimiters();
+    this.proxies = new ProxyAgents(env);
+  }
+
+  // Strip every API key out of anything that may end up in logs or error traces.
+  redact(text: string): string {
+    return this.keys.psi.redact(text);
+  }
+
+  // Per-attempt abort: fires on our own timeout or when the caller cancels.
+  private requestSignal(signal?: AbortSignal) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      done: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+      },
+    };
+  }
+
+  // A quota or invalid-key error belongs to the key, not the request: sideline
+  // the key and report whether another one can take the request straight away.
+  private rotateKey(api: Api, key: string, response: Response, body: string): boolean {
+    const pool = this.keys[api];
+    if (isRateLimited(response.status, body)) {
+      const reason = isDailyQuota(body) ? "daily-quota" : "rate-limited";
+      return pool.sideline(key, reason, parseRetryAfter(response.headers.get("retry-after")));
+    }
+    return isInvalidKey(body) && pool.sideline(key, "invalid-key");
+  }
+
+  private classify(api: Api, response: Response, body: string): UpstreamError {
+    const { status } = response;
+    // Google's JSON error bodies run to kilobytes; its message says it all
+    const message = `${SHORT_NAMES[api]} API error: ${status} ${response.statusText} - ${this.redact(googleErrorMessage(body))}`;
+    if (isRateLimited(status, body)) {
+      return new RateLimitError(message, api, parseRetryAfter(response.headers.get("retry-after")), isDailyQuota(body));
+    }
+    if (isInvalidKey(body)) {
+      return new UpstreamError(message, api, status, false, "invalid-api-key");
+    }
+    if (status === 400 && /url/i.test(body)) {
+      return new InvalidUrlError(message, api);
+    }
+    // Lighthouse ran but could not load the page; PSI reports these as 500s
+    const pageFailure = api === "psi" ? parsePageFailure(body) : null;
+    if (pageFailure) {
+      return new UnreachablePageError(message, api, status, pageFailure);
+    }
+    const serverError = status >= 500;
+    return new UpstreamError(message, api, status, serverError, serverError ? "upstream-unavailable" : "unknown");
+  }
+
+  async request<T>(req: UpstreamRequest): Promise<UpstreamResponse<T>> {
+    const { api, signal } = req;
+    const logger = createRequestLogger(req.correlationId, `${api}-request`);
+    const breaker = this.breakers[api];
+    // The daily budget counts this request once, however many attempts it takes
+    let charged = false;
+
+    return pRetry(
+      async (attempt) => {
+        // A key that is out of quota or rejected hands over to the next one
+        // within the same attempt
+        for (;;) {
+          throwIfCancelled(signal);
+          breaker.check();
+          const key = this.keys[api].next();
+          await this.rateLimits[api].acquire(signal, !charged);
+          charged = true;
+          const url = new URL(req.url);
+          url.searchParams.set("key", key);
+          logger.debug({ attempt, url: this.redact(url.toString()) }, "Making upstream request");
+
+          const request = this.requestSignal(signal);
+          let response: Response;
+          try {
+            response = await fetch(url.toString(), {
+              method: req.body === undefined ? "GET" : "POST",
+              headers: {
+                "User-Agent": USER_AGENT,
+                ...(req.body !== undefined && { "Content-Type": "application/json" }),
+              },
+              body: req.body === undefined ? undefined : JSON.stringify(req.body),
+              signal: request.signal,
+              agent: this.proxies.for(url),
+            });
+          } catch (error) {
+            if (signal?.aborted) {
+              logger.info({ attempt }, "Upstream request cancelled");
+              throw new CancelledError();
+            }
+            if (request.timedOut()) {
+              const message = `${SHORT_NAMES[api]} request timed out after ${this.timeout}ms`;
+              logger.warn({ attempt, error: message }, "Upstream request failed");
+              throw new UpstreamError(message, api, null, true, "timeout");
+            }
+            const message = `${SHORT_NAMES[api]} request failed: ${this.redact(error instanceof Error ? error.message : String(error))}`;
+            logger.warn({ attempt, error: message }, "Upstream request failed");
+            throw new UpstreamError(message, api, null, true, "upstream-unavailable");
+          } finally {
+            request.done();
+          }
+
+          if (response.ok || req.acceptStatus?.includes(response.status)) {
+            breaker.success();
+            const data = response.ok ? ((await response.json()) as T) : null;
+            logger.info({ attempt, status: response.status }, "Upstream request successful");
+            return { status: response.status, data };
+          }
+
+          const body = await response.text();
+          if (this.rotateKey(api, key, response, body)) continue;
+          const error = this.classify(api, response, body);
+          // Only Google failing counts; a page Lighthouse could not load says nothing about the API
+          if (response.status >= 500 && !(error instanceof UnreachablePageError)) {
+            breaker.failure();
+          } else {
+            breaker.success();
+          }
+          logger.warn({ attempt, status: response.status, error: error.message }, "Upstream request failed");
+          throw error;
+        }
+      },
+      {
+        retries: this.retryAttempts,
+        signal,
+        onFailedAttempt: (error) => {
+          if (error instanceof RateLimitError) {
+            // The next attempt's acquire() waits out the pause
+            if (error.retriesLeft > 0) this.rateLimits[api].backOff(error, error.attemptNumber);
+            return;
+          }
+          if (!(error instanceof UpstreamError) || !error.retryable) {
+            throw error; // Don't retry client errors, spent quota, page failures or cancelled requests
+          }
+        },
+        factor: 2,
+        minTimeout: 1000,
+        maxTimeout: 10000,
+        randomize: true,
+      }
+    ).catch((error) => {
+      // p-retry rejects with the signal's reason when aborted between attempts
+      if (signal?.aborted) throw new CancelledError();
+      throw error;
+    });
+  }
+}